@@ -2,7 +2,7 @@ import resolve from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 import typescript from '@rollup/plugin-typescript';
 
-export default {
+export default [{
     input: 'src/index.ts',
     output: [
         {
@@ -29,4 +29,22 @@ export default {
         commonjs(),
         typescript({ tsconfig: './tsconfig.json' }),
     ],
-};
+}, {
+    // Dependency-free payload types, validator and migrations for backends
+    input: 'src/schema.ts',
+    output: [
+        {
+            file: 'dist/schema.cjs.js',
+            format: 'cjs',
+            sourcemap: true,
+        },
+        {
+            file: 'dist/schema.esm.js',
+            format: 'es',
+            sourcemap: true,
+        },
+    ],
+    plugins: [
+        typescript({ tsconfig: './tsconfig.json' }),
+    ],
+}];
@@ -0,0 +1,23 @@
+import type { NextFunction, Request, Response } from 'express';
+
+// sendBeacon can't set headers, so the key may also arrive as ?key=
+export function getRequestKey(req: Request): string | undefined {
+    const header = req.headers['x-api-key'];
+    if (typeof header === 'string') return header;
+    return typeof req.query.key === 'string' ? req.query.key : undefined;
+}
+
+/**
+ * Rejects requests without the API key; '*' accepts any. With `allowSameOrigin`,
+ * pages served by the receiver itself (inbox, replay player) need no key:
+ * browsers set Sec-Fetch-Site on every request and scripts can't override it.
+ */
+export function requireApiKey(apiKey: string, options: { allowSameOrigin?: boolean } = {}) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        const key = getRequestKey(req);
+        if (apiKey === '*' || key === apiKey) return next();
+        if (options.allowSameOrigin && req.headers['sec-fetch-site'] === 'same-origin') return next();
+        console.warn('Invalid API Key:', key);
+        res.status(401).json({ error: 'Unauthorized' });
+    };
+}
@@ -0,0 +1,153 @@
+// Single-page inbox served at /tagtics/inbox. Plain DOM scripting, no build step.
+// Everything from payloads goes through textContent, never innerHTML.
+
+export const HIGHLIGHT_HASH = 'tagtics-xpath';
+
+export const dashboardHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Tagtics Inbox</title>
+<style>
+    * { box-sizing: border-box; }
+    body { margin: 0; font: 14px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #0f172a; background: #f8fafc; }
+    header { padding: 16px 24px; background: #fff; border-bottom: 1px solid #e2e8f0; display: flex; gap: 12px; align-items: center; flex-wrap: wrap; }
+    header h1 { font-size: 18px; margin: 0 16px 0 0; }
+    header input { padding: 6px 10px; border: 1px solid #cbd5e1; border-radius: 6px; font: inherit; }
+    header button { padding: 6px 14px; border: none; border-radius: 6px; background: #6366f1; color: #fff; font: inherit; cursor: pointer; }
+    main { display: grid; grid-template-columns: minmax(280px, 380px) 1fr; height: calc(100vh - 66px); }
+    #list { overflow-y: auto; border-right: 1px solid #e2e8f0; background: #fff; margin: 0; padding: 0; list-style: none; }
+    #list li { padding: 12px 16px; border-bottom: 1px solid #f1f5f9; cursor: pointer; }
+    #list li:hover, #list li.active { background: #eef2ff; }
+    #list .meta { color: #64748b; font-size: 12px; display: flex; justify-content: space-between; gap: 8px; }
+    #list .text { margin-top: 4px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    #detail { overflow-y: auto; padding: 24px; }
+    #detail h2 { font-size: 16px; margin: 24px 0 8px; }
+    #detail .feedback { font-size: 16px; white-space: pre-wrap; background: #fff; padding: 16px; border-radius: 8px; border: 1px solid #e2e8f0; }
+    #detail a.open { display: inline-block; margin-top: 12px; color: #4f46e5; }
+    #detail img { max-width: 100%; border: 1px solid #e2e8f0; border-radius: 8px; }
+    code, pre, .tree { font-family: Menlo, Monaco, monospace; font-size: 12px; }
+    pre { background: #0f172a; color: #e2e8f0; padding: 12px; border-radius: 8px; overflow-x: auto; }
+    .tree details { margin-left: 16px; }
+    .tree summary { cursor: pointer; }
+    .tree .tag { color: #7c3aed; }
+    .tree .attr { color: #0369a1; }
+    .tree .text-node { margin-left: 16px; color: #475569; }
+    .tree .masked { color: #dc2626; }
+    .empty { color: #64748b; padding: 24px; }
+    .chip { display: inline-block; padding: 2px 8px; border-radius: 999px; background: #e0e7ff; color: #3730a3; font-size: 12px; margin-right: 4px; }
+</style>
+</head>
+<body>
+<header>
+    <h1>Tagtics Inbox</h1>
+    <form id="filters">
+        <input name="path" placeholder="Path, e.g. /checkout*">
+        <input name="from" type="date" aria-label="From">
+        <input name="to" type="date" aria-label="To">
+        <button type="submit">Filter</button>
+    </form>
+    <span id="count"></span>
+</header>
+<main>
+    <ul id="list"></ul>
+    <section id="detail"><div class="empty">Select a feedback item.</div></section>
+</main>
+<script>
+const HIGHLIGHT_HASH = '${HIGHLIGHT_HASH}';
+const list = document.getElementById('list');
+const detail = document.getElementById('detail');
+const filters = document.getElementById('filters');
+
+function el(tag, props, ...children) {
+    const node = document.createElement(tag);
+    Object.assign(node, props || {});
+    children.flat().forEach(child => {
+        if (child == null) return;
+        node.append(child instanceof Node ? child : String(child));
+    });
+    return node;
+}
+
+function renderTree(node) {
+    if (!node) return el('div', { className: 'empty', textContent: 'No serialized subtree' });
+    const attrs = Object.entries(node.attributes || {}).map(([name, value]) =>
+        [' ', el('span', { className: 'attr', textContent: name }), '="' + value + '"']);
+    const label = el('summary', {}, el('span', { className: 'tag', textContent: '<' + node.tag }), attrs,
+        el('span', { className: 'tag', textContent: '>' }), node.masked ? el('span', { className: 'masked', textContent: ' masked' }) : null);
+    const children = [];
+    if (node.text) children.push(el('div', { className: 'text-node', textContent: JSON.stringify(node.text) }));
+    if (node.shadowRoot) children.push(el('div', { className: 'text-node', textContent: '#shadow-root' }), ...node.shadowRoot.map(renderTree));
+    if (node.frame) children.push(el('div', { className: 'text-node', textContent: '#document' }), renderTree(node.frame));
+    (node.children || []).forEach(child => children.push(renderTree(child)));
+    return el('details', { open: true }, label, children);
+}
+
+// Anyone who can POST sets pageUrl, so only http(s) pages get a link
+function openUrl(item, xpath) {
+    let url;
+    try {
+        url = new URL(item.pageUrl);
+    } catch (e) {
+        return null;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (xpath) url.hash = HIGHLIGHT_HASH + '=' + encodeURIComponent(xpath);
+    return url.href;
+}
+
+function showItem(item) {
+    const selections = item.selections && item.selections.length ? item.selections : (item.selected && item.selected.xpath ? [item.selected] : []);
+    const fields = item.fields ? Object.entries(item.fields).filter(([key]) => key !== 'custom') : [];
+    const pageUrl = openUrl(item, selections[0] && selections[0].xpath);
+    detail.replaceChildren(
+        el('div', { className: 'meta' }, new Date(item.timestamp).toLocaleString(), ' · ', item.path),
+        el('div', { className: 'feedback', textContent: item.upvote ? '+1' : item.feedback || '(no text)' }),
+        item.replyTo ? el('p', {}, 'Reply to ', el('code', { textContent: item.replyTo })) : null,
+        fields.length ? el('p', {}, fields.map(([key, value]) => el('span', { className: 'chip', textContent: key + ': ' + value }))) : null,
+        pageUrl ? el('a', { className: 'open', href: pageUrl, target: '_blank', rel: 'noopener', textContent: 'Open page' + (selections.length ? ' with element highlighted' : '') + ' ↗' }) : null,
+        item.replay && item.replay.events.length ? [' ', el('a', { className: 'open', href: '/tagtics/replay/' + encodeURIComponent(item.submissionId), target: '_blank', rel: 'noopener', textContent: 'Watch replay ↗' })] : null,
+        item.replay && item.replay.omitted ? el('p', { className: 'meta', textContent: 'Replay left out: ' + Math.round(item.replay.omitted.bytes / 1024) + ' KB, over the ' + Math.round(item.replay.omitted.maxBytes / 1024) + ' KB limit' }) : null,
+        selections.map((selection, i) => [
+            el('h2', { textContent: (selections.length > 1 ? (i + 1) + '. ' : '') + (selection.type === 'region' ? 'Region in ' : '') + (selection.descriptor || selection.tag) }),
+            el('code', { textContent: selection.xpath }),
+            selections.length > 1 && pageUrl ? el('a', { href: openUrl(item, selection.xpath), target: '_blank', rel: 'noopener', textContent: ' open ↗' }) : null,
+            el('div', { className: 'tree' }, renderTree(selection.serialized)),
+        ]),
+        item.screenshot && item.screenshot.element ? [el('h2', { textContent: 'Screenshot' }), el('img', { src: item.screenshot.element, alt: 'Element screenshot' })] : null,
+        item.screenshot && item.screenshot.viewport ? [el('h2', { textContent: 'Viewport' }), el('img', { src: item.screenshot.viewport, alt: 'Viewport screenshot' })] : null,
+        item.user ? [el('h2', { textContent: 'User' }), el('pre', { textContent: JSON.stringify(item.user, null, 2) })] : null,
+        item.context ? [el('h2', { textContent: 'Context' }), el('pre', { textContent: JSON.stringify(item.context, null, 2) })] : null,
+        item.breadcrumbs && item.breadcrumbs.length ? [el('h2', { textContent: 'Breadcrumbs' }), el('pre', { textContent: JSON.stringify(item.breadcrumbs, null, 2) })] : null,
+        el('h2', { textContent: 'Raw payload' }),
+        el('pre', { textContent: JSON.stringify(item, (key, value) => key === 'screenshot' || key === 'replay' ? '[omitted]' : value, 2) }),
+    );
+}
+
+async function load() {
+    const params = new URLSearchParams();
+    new FormData(filters).forEach((value, key) => { if (value) params.set(key, value); });
+    const res = await fetch('/tagtics/feedback?' + params);
+    const { items, total } = await res.json();
+    document.getElementById('count').textContent = total + ' item' + (total === 1 ? '' : 's');
+    list.replaceChildren(...items.map(item => {
+        const li = el('li', {},
+            el('div', { className: 'meta' }, el('span', { textContent: item.path }), el('span', { textContent: new Date(item.timestamp).toLocaleString() })),
+            el('div', { className: 'text', textContent: (item.replyTo ? '↳ ' : '') + (item.upvote ? '+1' : item.feedback || '(no text)') }));
+        li.onclick = () => {
+            list.querySelectorAll('.active').forEach(node => node.classList.remove('active'));
+            li.classList.add('active');
+            showItem(item);
+        };
+        return li;
+    }));
+    if (!items.length) list.replaceChildren(el('li', { className: 'empty', textContent: 'No feedback yet.' }));
+}
+
+filters.addEventListener('submit', e => { e.preventDefault(); load(); });
+load();
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { migratePayload, FeedbackPayload } from '../src/schema.js';
+
+// Feedback as stored: the client payload plus receiver bookkeeping
+export type InboxItem = FeedbackPayload & { receivedAt: number };
+
+export type InboxFilter = {
+    path?: string; // Exact path, or a prefix when it ends with '*'
+    from?: number; // Inclusive, ms since epoch
+    to?: number; // Inclusive, ms since epoch
+    limit?: number;
+    offset?: number;
+};
+
+/**
+ * Append-only JSON-lines store. Each submission is one line, so a crash can
+ * at worst leave a truncated last line, which is skipped on load.
+ */
+export class Inbox {
+    private items = new Map<string, InboxItem>();
+
+    constructor(private file: string) {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        if (!fs.existsSync(file)) return;
+        fs.readFileSync(file, 'utf8').split('\n').forEach((line, i) => {
+            if (!line.trim()) return;
+            try {
+                // Files written before a schema bump are upgraded as they load
+                const item = migratePayload(JSON.parse(line)) as InboxItem;
+                this.items.set(item.submissionId, item);
+            } catch (e) {
+                console.warn(`Skipping unreadable inbox line ${i + 1} in ${file}`);
+            }
+        });
+    }
+
+    // Returns false for a submission that was already stored (outbox retries)
+    add(payload: FeedbackPayload): boolean {
+        if (this.items.has(payload.submissionId)) return false;
+        const item: InboxItem = { ...payload, receivedAt: Date.now() };
+        fs.appendFileSync(this.file, JSON.stringify(item) + '\n');
+        this.items.set(item.submissionId, item);
+        return true;
+    }
+
+    get(id: string): InboxItem | undefined {
+        return this.items.get(id);
+    }
+
+    // Newest first
+    list(filter: InboxFilter = {}): { items: InboxItem[]; total: number } {
+        const matches = Array.from(this.items.values())
+            .filter(item => matchesPath(item.path, filter.path))
+            .filter(item => filter.from === undefined || item.timestamp >= filter.from)
+            .filter(item => filter.to === undefined || item.timestamp <= filter.to)
+            .sort((a, b) => b.timestamp - a.timestamp);
+        const offset = filter.offset || 0;
+        const limit = filter.limit || 100;
+        return { items: matches.slice(offset, offset + limit), total: matches.length };
+    }
+}
+
+function matchesPath(itemPath: string, pattern?: string): boolean {
+    if (!pattern) return true;
+    if (pattern.endsWith('*')) return itemPath.startsWith(pattern.slice(0, -1));
+    return itemPath === pattern;
+}
+
+// Accepts ms timestamps or anything Date can parse; `to` dates without a time cover the whole day
+export function parseDate(value: unknown, endOfDay = false): number | undefined {
+    if (typeof value !== 'string' || !value) return undefined;
+    if (/^\d+$/.test(value)) return Number(value);
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) return undefined;
+    return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
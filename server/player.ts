@@ -0,0 +1,239 @@
+// Replay player served at /tagtics/replay/:id. Plain DOM scripting, no build step.
+// The recording is rebuilt inside a sandboxed iframe without allow-scripts, and
+// event handler attributes and javascript: URLs are dropped on top of that.
+
+export const replayPlayerHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Tagtics Replay</title>
+<style>
+    * { box-sizing: border-box; }
+    body { margin: 0; font: 14px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #0f172a; background: #f8fafc; display: flex; flex-direction: column; height: 100vh; }
+    header { padding: 12px 24px; background: #fff; border-bottom: 1px solid #e2e8f0; display: flex; gap: 12px; align-items: center; }
+    header h1 { font-size: 18px; margin: 0 16px 0 0; }
+    header a { color: #4f46e5; }
+    #url { color: #64748b; font-family: Menlo, Monaco, monospace; font-size: 12px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    #stage { flex: 1; position: relative; overflow: hidden; background: #e2e8f0; }
+    #viewport { position: absolute; top: 0; left: 0; transform-origin: 0 0; background: #fff; box-shadow: 0 4px 24px rgba(15, 23, 42, 0.15); }
+    #viewport iframe { border: none; width: 100%; height: 100%; display: block; }
+    #clicks { position: absolute; inset: 0; pointer-events: none; }
+    .click { position: absolute; width: 24px; height: 24px; margin: -12px 0 0 -12px; border-radius: 50%; background: rgba(99, 102, 241, 0.5); border: 2px solid #6366f1; animation: ripple 0.8s ease-out forwards; }
+    @keyframes ripple { to { transform: scale(2); opacity: 0; } }
+    footer { padding: 12px 24px; background: #fff; border-top: 1px solid #e2e8f0; display: flex; gap: 12px; align-items: center; }
+    footer button { padding: 6px 14px; border: none; border-radius: 6px; background: #6366f1; color: #fff; font: inherit; cursor: pointer; min-width: 72px; }
+    footer input[type=range] { flex: 1; }
+    #time { font-variant-numeric: tabular-nums; color: #64748b; }
+    .empty { color: #64748b; padding: 24px; }
+</style>
+</head>
+<body>
+<header>
+    <h1>Tagtics Replay</h1>
+    <span id="url"></span>
+    <a href="/tagtics/inbox">Inbox</a>
+</header>
+<div id="stage">
+    <div id="viewport"><iframe sandbox="allow-same-origin" title="Recorded page"></iframe><div id="clicks"></div></div>
+</div>
+<footer>
+    <button id="play" type="button">Play</button>
+    <input id="seek" type="range" min="0" value="0" aria-label="Position">
+    <span id="time"></span>
+    <select id="speed" aria-label="Speed">
+        <option value="1">1×</option>
+        <option value="2">2×</option>
+        <option value="4">4×</option>
+    </select>
+</footer>
+<script>
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const stage = document.getElementById('stage');
+const viewport = document.getElementById('viewport');
+const frame = viewport.querySelector('iframe');
+const clicks = document.getElementById('clicks');
+const playButton = document.getElementById('play');
+const seek = document.getElementById('seek');
+const speed = document.getElementById('speed');
+
+let replay = null;
+let nodes = new Map();
+let applied = -1; // Index of the last applied event
+let time = 0; // Milliseconds since replay.startedAt
+let playing = false;
+let lastFrame = 0;
+
+function isSafeAttribute(name, value) {
+    if (/^on/i.test(name)) return false;
+    return !(/^(href|src|action|formaction|xlink:href)$/i.test(name) && /^\\s*javascript:/i.test(value));
+}
+
+function build(doc, node, svg) {
+    if (node.type === 'text') {
+        const text = doc.createTextNode(node.text);
+        nodes.set(node.id, text);
+        return text;
+    }
+    const inSvg = svg || node.svg;
+    const el = inSvg ? doc.createElementNS(SVG_NS, node.tag) : doc.createElement(node.tag);
+    Object.entries(node.attributes).forEach(([name, value]) => {
+        // Embedded frames were never recorded, so don't load them either
+        if (node.tag === 'iframe' && name === 'src') return;
+        try {
+            if (isSafeAttribute(name, value)) el.setAttribute(name, value);
+        } catch (e) { /* Names the recorded browser accepted but this one doesn't */ }
+    });
+    if (node.masked) el.style.background = 'repeating-linear-gradient(45deg, #cbd5e1 0 6px, #e2e8f0 6px 12px)';
+    node.children.forEach(child => el.appendChild(build(doc, child, inSvg && node.tag !== 'foreignObject')));
+    nodes.set(node.id, el);
+    return el;
+}
+
+function resize(width, height) {
+    viewport.style.width = width + 'px';
+    viewport.style.height = height + 'px';
+    const scale = Math.min(1, stage.clientWidth / width, stage.clientHeight / height);
+    viewport.style.transform = 'scale(' + scale + ')';
+}
+
+function scrollTo(id, x, y) {
+    if (id === null) {
+        frame.contentWindow.scrollTo(x, y);
+        return;
+    }
+    const el = nodes.get(id);
+    if (el) {
+        el.scrollLeft = x;
+        el.scrollTop = y;
+    }
+}
+
+function applySnapshot(event) {
+    const doc = frame.contentDocument;
+    nodes = new Map();
+    const root = build(doc, event.root, false);
+    doc.replaceChild(root, doc.documentElement);
+    // Relative stylesheet and image URLs should resolve against the recorded page
+    const head = root.querySelector('head');
+    if (head) {
+        const base = doc.createElement('base');
+        base.href = event.url;
+        head.prepend(base);
+    }
+    document.getElementById('url').textContent = event.url;
+    resize(event.viewport.width, event.viewport.height);
+    scrollTo(null, event.scroll.x, event.scroll.y);
+}
+
+function applyMutation(event) {
+    const doc = frame.contentDocument;
+    event.removes.forEach(id => {
+        const node = nodes.get(id);
+        if (node) node.remove();
+    });
+    event.adds.forEach(({ parentId, beforeId, node }) => {
+        const parent = nodes.get(parentId);
+        if (!parent) return;
+        const before = beforeId === null ? null : nodes.get(beforeId);
+        const svg = parent.namespaceURI === SVG_NS && parent.localName !== 'foreignObject';
+        parent.insertBefore(build(doc, node, svg), before && before.parentNode === parent ? before : null);
+    });
+    event.attributes.forEach(({ id, name, value }) => {
+        const el = nodes.get(id);
+        if (!el) return;
+        if (value === null) el.removeAttribute(name);
+        else if (isSafeAttribute(name, value)) el.setAttribute(name, value);
+    });
+    event.texts.forEach(({ id, text }) => {
+        const node = nodes.get(id);
+        if (node) node.textContent = text;
+    });
+}
+
+function showClick(event, animate) {
+    if (!animate) return;
+    const dot = document.createElement('div');
+    dot.className = 'click';
+    dot.style.left = event.x + 'px';
+    dot.style.top = event.y + 'px';
+    clicks.appendChild(dot);
+    setTimeout(() => dot.remove(), 800);
+}
+
+function apply(event, animate) {
+    switch (event.type) {
+        case 'snapshot': return applySnapshot(event);
+        case 'mutation': return applyMutation(event);
+        case 'click': return showClick(event, animate);
+        case 'scroll': return scrollTo(event.id, event.x, event.y);
+        case 'viewport': return resize(event.width, event.height);
+        case 'route': document.getElementById('url').textContent = event.url;
+    }
+}
+
+function formatTime(ms) {
+    const seconds = Math.floor(ms / 1000);
+    return Math.floor(seconds / 60) + ':' + String(seconds % 60).padStart(2, '0');
+}
+
+// Plays forward from the current state, or rebuilds from the nearest snapshot when seeking back
+function renderUntil(target, animate) {
+    const events = replay.events;
+    const until = replay.startedAt + target;
+    if (target < time || applied < 0) {
+        let start = 0;
+        events.forEach((event, i) => { if (event.type === 'snapshot' && event.timestamp <= until) start = i; });
+        applied = start - 1;
+        animate = false;
+    }
+    while (applied + 1 < events.length && events[applied + 1].timestamp <= until) {
+        applied++;
+        apply(events[applied], animate);
+    }
+    time = target;
+    seek.value = String(Math.round(target));
+    document.getElementById('time').textContent = formatTime(target) + ' / ' + formatTime(Number(seek.max));
+}
+
+function tick(now) {
+    if (!playing) return;
+    const next = Math.min(Number(seek.max), time + (now - lastFrame) * Number(speed.value));
+    lastFrame = now;
+    renderUntil(next, true);
+    if (next >= Number(seek.max)) setPlaying(false);
+    else requestAnimationFrame(tick);
+}
+
+function setPlaying(value) {
+    playing = value;
+    playButton.textContent = value ? 'Pause' : 'Play';
+    if (value) {
+        if (time >= Number(seek.max)) renderUntil(0, false);
+        lastFrame = performance.now();
+        requestAnimationFrame(tick);
+    }
+}
+
+async function load() {
+    const id = decodeURIComponent(location.pathname.split('/').pop());
+    const res = await fetch('/tagtics/feedback/' + encodeURIComponent(id));
+    const item = res.ok ? await res.json() : null;
+    if (!item || !item.replay || !item.replay.events.length) {
+        stage.replaceChildren(Object.assign(document.createElement('div'), { className: 'empty', textContent: 'No replay recorded for this feedback.' }));
+        return;
+    }
+    replay = item.replay;
+    document.title = 'Replay · ' + item.path;
+    seek.max = String(replay.endedAt - replay.startedAt);
+    renderUntil(0, false);
+}
+
+playButton.addEventListener('click', () => setPlaying(!playing));
+seek.addEventListener('input', () => renderUntil(Number(seek.value), false));
+window.addEventListener('resize', () => { if (replay) resize(parseFloat(viewport.style.width), parseFloat(viewport.style.height)); });
+load();
+</script>
+</body>
+</html>
+`;
@@ -1,29 +1,74 @@
 import express from 'express';
 import cors from 'cors';
+import { Inbox, parseDate } from './inbox.js';
+import { migratePayload, validatePayload } from '../src/schema.js';
+import { dashboardHtml } from './dashboard.js';
+import { replayPlayerHtml } from './player.js';
+import { requireApiKey } from './auth.js';
 
 const app = express();
-const PORT = 3000;
+const PORT = Number(process.env.PORT) || 3000;
+// '*' accepts any key
+const API_KEY = process.env.TAGTICS_API_KEY || 'TEST_PROJECT_KEY';
+const INBOX_FILE = process.env.TAGTICS_INBOX || '.tagtics/feedback.jsonl';
 
-app.use(cors());
-app.use(express.json());
+const inbox = new Inbox(INBOX_FILE);
+
+// Only the feedback API is cross-origin; stored submissions need the key unless the inbox itself asks
+app.use('/tagtics/feedback', cors());
+// Screenshots make payloads far larger than the 100kb default
+app.use(express.json({ limit: '10mb' }));
 app.use('/examples', express.static('examples'));
 app.use('/dist', express.static('dist'));
 
-app.post('/tagtics/feedback', (req, res) => {
-    const apiKey = req.headers['x-api-key'];
+app.post('/tagtics/feedback', requireApiKey(API_KEY), (req, res) => {
+    // Older clients are still in the wild; store everything in the current shape
+    let body = req.body;
+    try {
+        if (body && typeof body === 'object') body = migratePayload(body);
+    } catch (e) {
+        return res.status(400).json({ error: (e as Error).message });
+    }
 
-    if (apiKey !== 'TEST_PROJECT_KEY') {
-        console.warn('Invalid API Key:', apiKey);
-        // For testing purposes, we might want to allow it or just warn
-        // return res.status(401).json({ error: 'Unauthorized' });
+    const errors = validatePayload(body);
+    if (errors.length) {
+        console.warn('Rejected invalid payload:', errors);
+        return res.status(400).json({ error: 'Invalid payload', details: errors });
     }
 
-    console.log('Received Feedback Payload:');
-    console.log(JSON.stringify(req.body, null, 2));
+    const created = inbox.add(body);
+    console.log(`${created ? 'Stored' : 'Duplicate'} feedback ${body.submissionId} for ${body.path}`);
+    res.status(created ? 201 : 200).json({ ok: true, id: body.submissionId, duplicate: !created });
+});
+
+app.get('/tagtics/feedback', requireApiKey(API_KEY, { allowSameOrigin: true }), (req, res) => {
+    const { path, from, to, limit, offset } = req.query;
+    res.json(inbox.list({
+        path: typeof path === 'string' ? path : undefined,
+        from: parseDate(from),
+        to: parseDate(to, true),
+        limit: Number(limit) || undefined,
+        offset: Number(offset) || undefined,
+    }));
+});
+
+app.get('/tagtics/feedback/:id', requireApiKey(API_KEY, { allowSameOrigin: true }), (req, res) => {
+    const item = inbox.get(req.params.id);
+    if (!item) return res.status(404).json({ error: 'Not found' });
+    res.json(item);
+});
+
+app.get('/tagtics/inbox', (_req, res) => {
+    res.type('html').send(dashboardHtml);
+});
 
-    res.json({ ok: true });
+app.get('/tagtics/replay/:id', (req, res) => {
+    const item = inbox.get(req.params.id);
+    if (!item?.replay?.events.length) return res.status(404).type('text').send('No replay recorded for this feedback');
+    res.type('html').send(replayPlayerHtml);
 });
 
 app.listen(PORT, () => {
     console.log(`Feedback receiver listening at http://localhost:${PORT}`);
+    console.log(`Inbox: http://localhost:${PORT}/tagtics/inbox (stored in ${INBOX_FILE})`);
 });
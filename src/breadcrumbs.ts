@@ -0,0 +1,205 @@
+// --- Breadcrumbs ---
+// Opt-in recorder for console warnings/errors, uncaught errors and failed
+// requests. Entries are scrubbed when they are attached to a payload.
+
+import { scrubText, RedactionRules } from './redaction';
+import type { Breadcrumb, RedactionReport } from './schema';
+
+export type BreadcrumbOptions = {
+    maxEntries?: number; // Ring buffer size (default: 50)
+    console?: boolean; // console.error / console.warn (default: true)
+    errors?: boolean; // window error and unhandledrejection events (default: true)
+    network?: boolean; // Failed fetch / XMLHttpRequest calls (default: true)
+};
+
+export type { Breadcrumb };
+
+const DEFAULT_MAX_ENTRIES = 50;
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_STACK_LENGTH = 2000;
+
+let buffer: Breadcrumb[] = [];
+let maxEntries = DEFAULT_MAX_ENTRIES;
+let isIgnoredUrl: (url: string) => boolean = () => false;
+let restorers: (() => void)[] = [];
+
+function record(crumb: Breadcrumb) {
+    buffer.push(crumb);
+    if (buffer.length > maxEntries) buffer.splice(0, buffer.length - maxEntries);
+}
+
+function truncate(text: string, max: number): string {
+    return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+function formatArg(arg: unknown): string {
+    if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+    if (typeof arg === 'string') return arg;
+    try {
+        return JSON.stringify(arg) ?? String(arg);
+    } catch (e) {
+        return String(arg);
+    }
+}
+
+// Absolute URL without query string or hash, which often carry tokens
+export function stripUrl(url: string): string {
+    try {
+        const parsed = new URL(url, window.location.href);
+        return `${parsed.origin}${parsed.pathname}`;
+    } catch (e) {
+        return url.split(/[?#]/)[0];
+    }
+}
+
+function patchConsole() {
+    (['error', 'warn'] as const).forEach(level => {
+        const original = console[level];
+        const patched = (...args: unknown[]) => {
+            const message = args.map(formatArg).join(' ');
+            // Our own diagnostics would only add noise
+            if (!/^\[?Tagtics/.test(message)) {
+                record({ type: 'console', level, message: truncate(message, MAX_MESSAGE_LENGTH), timestamp: Date.now() });
+            }
+            original.apply(console, args);
+        };
+        console[level] = patched;
+        restorers.push(() => { if (console[level] === patched) console[level] = original; });
+    });
+}
+
+function listenForErrors() {
+    const onError = (e: ErrorEvent) => {
+        record({
+            type: 'error',
+            message: truncate(e.message || formatArg(e.error), MAX_MESSAGE_LENGTH),
+            source: e.filename ? stripUrl(e.filename) : undefined,
+            line: e.lineno || undefined,
+            column: e.colno || undefined,
+            stack: e.error?.stack ? truncate(String(e.error.stack), MAX_STACK_LENGTH) : undefined,
+            timestamp: Date.now(),
+        });
+    };
+    const onRejection = (e: PromiseRejectionEvent) => {
+        record({
+            type: 'error',
+            message: truncate(`Unhandled rejection: ${formatArg(e.reason)}`, MAX_MESSAGE_LENGTH),
+            stack: e.reason?.stack ? truncate(String(e.reason.stack), MAX_STACK_LENGTH) : undefined,
+            timestamp: Date.now(),
+        });
+    };
+    window.addEventListener('error', onError);
+    window.addEventListener('unhandledrejection', onRejection);
+    restorers.push(() => {
+        window.removeEventListener('error', onError);
+        window.removeEventListener('unhandledrejection', onRejection);
+    });
+}
+
+function recordRequest(method: string, url: string, status: number, start: number, error?: string) {
+    if (isIgnoredUrl(url)) return;
+    record({
+        type: 'network',
+        method: method.toUpperCase(),
+        url: stripUrl(url),
+        status,
+        duration: Math.round(Date.now() - start),
+        error,
+        timestamp: start,
+    });
+}
+
+function patchFetch() {
+    if (typeof globalThis.fetch !== 'function') return;
+    const original = globalThis.fetch;
+    const patched: typeof fetch = async (input, init) => {
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : (input as Request).url;
+        const method = init?.method || (typeof input === 'object' && 'method' in input ? (input as Request).method : 'GET');
+        const start = Date.now();
+        try {
+            const response = await original.call(globalThis, input, init);
+            if (!response.ok) recordRequest(method, url, response.status, start);
+            return response;
+        } catch (e) {
+            recordRequest(method, url, 0, start, formatArg(e));
+            throw e;
+        }
+    };
+    globalThis.fetch = patched;
+    restorers.push(() => { if (globalThis.fetch === patched) globalThis.fetch = original; });
+}
+
+function patchXHR() {
+    if (typeof XMLHttpRequest === 'undefined') return;
+    const proto = XMLHttpRequest.prototype;
+    const originalOpen = proto.open;
+    const originalSend = proto.send;
+    const requests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+
+    const patchedOpen = function (this: XMLHttpRequest, ...args: Parameters<XMLHttpRequest['open']>) {
+        const [method, url] = args;
+        requests.set(this, { method, url: String(url) });
+        return originalOpen.apply(this, args);
+    };
+    const patchedSend = function (this: XMLHttpRequest, ...args: Parameters<XMLHttpRequest['send']>) {
+        const request = requests.get(this);
+        if (request) {
+            const start = Date.now();
+            this.addEventListener('loadend', () => {
+                if (this.status === 0 || this.status >= 400) {
+                    recordRequest(request.method, request.url, this.status, start, this.status === 0 ? 'Network error' : undefined);
+                }
+            });
+        }
+        return originalSend.apply(this, args);
+    };
+    proto.open = patchedOpen as typeof proto.open;
+    proto.send = patchedSend;
+    restorers.push(() => {
+        if (proto.open === patchedOpen) proto.open = originalOpen;
+        if (proto.send === patchedSend) proto.send = originalSend;
+    });
+}
+
+/**
+ * Starts recording. `ignoreUrl` filters out requests that shouldn't be
+ * recorded, such as feedback deliveries themselves.
+ */
+export function startBreadcrumbs(options: BreadcrumbOptions = {}, ignoreUrl?: (url: string) => boolean): void {
+    stopBreadcrumbs();
+    maxEntries = options.maxEntries || DEFAULT_MAX_ENTRIES;
+    if (ignoreUrl) isIgnoredUrl = ignoreUrl;
+    if (options.console !== false) patchConsole();
+    if (options.errors !== false) listenForErrors();
+    if (options.network !== false) {
+        patchFetch();
+        patchXHR();
+    }
+}
+
+// Restores patched globals (unless someone wrapped them after us) and empties the buffer
+export function stopBreadcrumbs(): void {
+    restorers.forEach(restore => restore());
+    restorers = [];
+    buffer = [];
+    isIgnoredUrl = () => false;
+}
+
+// Empties the buffer but keeps recording
+export function clearBreadcrumbs(): void {
+    buffer = [];
+}
+
+// Copies of the buffer scrubbed with `rules` (default: the page-wide ones), oldest first
+export function getBreadcrumbs(report?: RedactionReport, rules?: RedactionRules): Breadcrumb[] {
+    const scrub = (text: string) => scrubText(text, report, rules);
+    return buffer.map(crumb => {
+        if (crumb.type === 'network') {
+            return { ...crumb, url: scrub(crumb.url), error: crumb.error && scrub(crumb.error) };
+        }
+        if (crumb.type === 'error') {
+            return { ...crumb, message: scrub(crumb.message), stack: crumb.stack && scrub(crumb.stack) };
+        }
+        return { ...crumb, message: scrub(crumb.message) };
+    });
+}
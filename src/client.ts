@@ -0,0 +1,2257 @@
+import { createEmitter, TagticsEmitter, TagticsEventHandler, TagticsEventName } from './events';
+import { compileRedaction, createRedactionReport, configureRedaction, isMasked, isRedactedAttribute, scrubText, RedactionConfig, RedactionReport, RedactionRules } from './redaction';
+import { captureScreenshot, ScreenshotOptions } from './screenshot';
+import { createThemeCss, normalizePosition, LauncherPosition, ThemeMode, ThemeOptions } from './theme';
+import { createLocalization, isRtl, Localization, Messages, Translate } from './i18n';
+import { hasFormFields, renderForm, validateFields, FeedbackFields, FormConfig, FormController } from './forms';
+import { evaluateXPath, getLocators, getXPath, locateElement, LocatorBundle } from './locators';
+import { getComposedChildren, getComposedParent, getEventTarget, getFrameDocument, getFrameDocuments, getViewportRect, isCrossOrigin, isHTMLElement } from './dom';
+import { clearIdentity, getContext, getUser } from './identity';
+import { clearBreadcrumbs, getBreadcrumbs, startBreadcrumbs, stopBreadcrumbs, stripUrl, BreadcrumbOptions } from './breadcrumbs';
+import { getRegionContainer, rectFromPoints, toggleSelection, DRAG_THRESHOLD, LONG_PRESS_MS, TOUCH_SLOP, Selection } from './selection';
+import { attemptDelivery, createId, enqueue, startOutbox, stopOutbox, DeliveryOutcome, DeliveryResult, OutboxEntry } from './outbox';
+import { matchesRoute, onRouteChange, RouteMatch } from './routing';
+import { clearReplay, getReplay, startReplay, stopReplay, ReplayOptions } from './replay';
+import { createHighlightTracker, getAncestorPath } from './tracking';
+import { clearDrafts, getDraft, getDraftKey, getLatestDraft, isDraftDismissed, removeDraft, saveDraft, setDraftDismissed, Draft, DraftOptions, DraftSelection } from './drafts';
+import { detectSensitivePage, SensitivePageOptions } from './sensitive';
+import { groupThreads, loadFeedback, locateThread, ReviewOptions, ReviewSource, ReviewThread } from './review';
+import { AncestorInfo, FeedbackPayload, PayloadSelected, PayloadSelection, SerializedElement, ViewportRect, SCHEMA_VERSION } from './schema';
+
+export type TagticsConfig = {
+    apiKey: string;
+    serializeChildDepth?: number;
+    privacyNotice?: string;
+    allowSensitivePages?: boolean;
+    sensitivePages?: SensitivePageOptions; // Tunes the payment/checkout detector
+    logoUrl?: string;
+    includePaths?: string[]; // Regex strings to include
+    excludePaths?: string[]; // Regex strings to exclude
+    testingMode?: boolean;
+    port?: number | string;
+    hideLauncher?: boolean; // Never render the FAB; drive the widget via pick()/submit()
+    endpoint?: string; // Overrides both the production and testingMode endpoints
+    headers?: HeadersOption;
+    transport?: Transport; // Replaces the built-in fetch entirely
+    screenshot?: boolean | ScreenshotOptions; // Opt-in PNG capture with form fields masked
+    redaction?: RedactionConfig;
+    theme?: ThemeMode | ThemeOptions; // Defaults to 'dark'
+    position?: LauncherPosition; // Launcher corner and offsets, defaults to bottom-right 20px
+    locale?: string; // e.g. 'de' or 'fr-CA'; detected from navigator.language and <html lang> if omitted
+    messages?: Partial<Messages>; // Overrides for individual widget strings
+    form?: FormConfig; // Categories, severity, rating, email and custom fields
+    maxLength?: number; // Feedback character limit (default: 300)
+    drafts?: boolean | DraftOptions; // Keeps unsent feedback per page and element (default: true)
+    breadcrumbs?: boolean | BreadcrumbOptions; // Opt-in console, error and failed-request log
+    replay?: boolean | ReplayOptions; // Opt-in recording of the last seconds before feedback
+    review?: boolean | ReviewOptions; // Pins existing feedback on the page so reviewers can reply or +1
+    release?: string; // App version or commit, sent with every payload
+    environment?: string; // e.g. 'production' or 'staging'
+    pageFeedbackOnly?: boolean; // Hide the element picker; pick() rejects
+    routes?: RouteOverride[]; // Per-route config, re-evaluated on every navigation
+
+    // Return a modified payload, or false to cancel the send
+    beforeSend?: (payload: FeedbackPayload) => FeedbackPayload | false | void | Promise<FeedbackPayload | false | void>;
+};
+
+// Every matching rule applies in order, later rules win
+export type RouteOverride = {
+    match: RouteMatch;
+    overrides: Partial<Omit<TagticsConfig, 'routes'>>;
+};
+
+export type SelectedElementInfo = {
+    element: HTMLElement;
+    xpath: string;
+    tag: string;
+    descriptor: string;
+    locators: LocatorBundle;
+    serialized: SerializedElement;
+    ancestors: AncestorInfo[];
+};
+
+export type SubmitOutcome = DeliveryOutcome | 'cancelled';
+
+export type TransportResult = DeliveryResult;
+export type Transport = (payload: FeedbackPayload) => Promise<TransportResult | Response>;
+// Static headers, or a function resolved before every attempt (e.g. to refresh a bearer token)
+export type HeadersOption = Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>);
+
+export type SubmitOptions = { feedback: string; element?: HTMLElement | null; elements?: HTMLElement[]; fields?: FeedbackFields };
+
+// --- Iframe / Embed Handling ---
+export function getEmbeds() {
+    const embeds = document.querySelectorAll('iframe, embed, object');
+    const embedHostnames: string[] = [];
+    let hasEmbeds = false;
+
+    embeds.forEach(el => {
+        hasEmbeds = true;
+        let src = '';
+        if (el instanceof HTMLIFrameElement || el instanceof HTMLEmbedElement) {
+            src = el.src;
+        } else if (el instanceof HTMLObjectElement) {
+            src = el.data;
+        }
+
+        if (src) {
+            try {
+                const url = new URL(src);
+                if (!embedHostnames.includes(url.hostname)) {
+                    embedHostnames.push(url.hostname);
+                }
+            } catch (e) {
+                // ignore invalid urls
+            }
+        }
+    });
+    return { hasEmbeds, embedHostnames };
+}
+
+
+// --- Serialization ---
+
+// `rules` defaults to the page-wide redaction config
+export function serializeElement(el: HTMLElement, depth: number, currentDepth = 0, report: RedactionReport = createRedactionReport(), rules?: RedactionRules): SerializedElement {
+    const tagName = el.tagName.toLowerCase();
+    const attributes: Record<string, string> = {};
+
+    // Masked subtrees keep their box and styles but nothing else
+    const masked = isMasked(el, rules);
+    if (masked) report.maskedElements++;
+
+    // Redact attributes
+    for (let i = 0; i < el.attributes.length && !masked; i++) {
+        const attr = el.attributes[i];
+        if (isRedactedAttribute(attr.name, rules)) {
+            attributes[attr.name] = '[REDACTED]';
+            report.attributes++;
+        } else if (attr.name === 'value' && (tagName === 'input' || tagName === 'textarea')) {
+            report.attributes++; // Form values are never sent
+        } else {
+            attributes[attr.name] = scrubText(attr.value, report, rules);
+        }
+    }
+
+    let text = '';
+    // Text only for leaf nodes that are not inputs/contentEditable
+    if (!masked && el.children.length === 0 && tagName !== 'input' && tagName !== 'textarea' && tagName !== 'select' && !el.isContentEditable) {
+        // Scrub before truncating so a cut-off match can't slip through
+        text = scrubText(el.textContent || '', report, rules).substring(0, 200);
+    }
+
+    // Computed styles (from the element's own window when it lives in an iframe)
+    const computed = (el.ownerDocument.defaultView || window).getComputedStyle(el);
+    const styleKeys = ['display', 'position', 'width', 'height', 'margin', 'padding', 'background-color', 'color', 'font-size', 'font-family', 'border', 'border-radius', 'box-shadow', 'overflow', 'text-align'];
+    const styles: Record<string, string> = {};
+    styleKeys.forEach(key => {
+        const val = computed.getPropertyValue(key);
+        if (!val.includes('data:')) { // Remove data URIs
+            styles[key] = val;
+        }
+    });
+
+    const serializeAll = (nodes: HTMLCollection) => Array.from(nodes)
+        .filter(isHTMLElement)
+        .map(child => serializeElement(child, depth, currentDepth + 1, report, rules));
+
+    const children: SerializedElement[] = [];
+    const result: SerializedElement = { tag: tagName, attributes, text, styles, children };
+    if (masked) {
+        result.masked = true;
+    } else if (currentDepth < depth) {
+        children.push(...serializeAll(el.children));
+
+        // Content behind open shadow roots and same-origin iframes counts as a child level too
+        if (el.shadowRoot) {
+            result.shadowRoot = serializeAll(el.shadowRoot.children);
+        }
+        const frameBody = getFrameDocument(el)?.body;
+        if (frameBody) {
+            result.frame = serializeElement(frameBody, depth, currentDepth + 1, report, rules);
+        }
+    }
+
+    return result;
+}
+
+
+// --- UI & Interaction ---
+
+function createStyles(config: TagticsConfig) {
+    const style = document.createElement('style');
+    style.textContent = createThemeCss(config.theme, config.position) + `
+        :host { 
+            all: initial; 
+            font-family: var(--tagtics-font); 
+            position: fixed; 
+            top: 0; 
+            left: 0; 
+            width: 100vw; 
+            height: 100vh; 
+            z-index: 2147483647; 
+            pointer-events: none; 
+            color-scheme: var(--tagtics-color-scheme);
+        }
+
+        /* --- FAB Container & Items --- */
+        .tagtics-fab-container {
+            position: fixed;
+            bottom: calc(var(--tagtics-offset-y) + env(safe-area-inset-bottom, 0px));
+            right: calc(var(--tagtics-offset-x) + env(safe-area-inset-right, 0px));
+            display: flex; flex-direction: column; align-items: center; gap: 16px;
+            z-index: 2147483647; 
+            pointer-events: none;
+        }
+        .tagtics-fab-container.pos-left { right: auto; left: calc(var(--tagtics-offset-x) + env(safe-area-inset-left, 0px)); }
+        .tagtics-fab-container.pos-top {
+            bottom: auto; top: calc(var(--tagtics-offset-y) + env(safe-area-inset-top, 0px));
+            flex-direction: column-reverse;
+        }
+        .tagtics-fab-main {
+            pointer-events: auto;
+            width: 56px; height: 56px; border-radius: 28px;
+            background: linear-gradient(135deg, var(--tagtics-primary), var(--tagtics-primary-end));
+            color: var(--tagtics-on-primary); border: none;
+            box-shadow: 0 8px 20px var(--tagtics-primary-shadow);
+            cursor: pointer; display: flex; align-items: center; justify-content: center;
+            font-size: 28px; transition: transform 0.3s cubic-bezier(0.34, 1.56, 0.64, 1);
+            z-index: 2;
+        }
+        .tagtics-fab-container.open .tagtics-fab-main {
+            transform: rotate(45deg) scale(0.9);
+            box-shadow: 0 4px 12px var(--tagtics-primary-shadow);
+        }
+        .tagtics-fab-item {
+            pointer-events: auto;
+            width: 48px; height: 48px; border-radius: 24px;
+            background: var(--tagtics-surface-raised);
+            backdrop-filter: blur(12px);
+            -webkit-backdrop-filter: blur(12px);
+            border: 1px solid var(--tagtics-border);
+            color: var(--tagtics-text); 
+            box-shadow: 0 4px 12px var(--tagtics-shadow);
+            cursor: pointer; display: flex; align-items: center; justify-content: center;
+            font-size: 20px; transition: all 0.2s ease;
+            position: relative;
+            opacity: 0; transform: translateY(10px) scale(0.9);
+            visibility: hidden;
+        }
+        .tagtics-fab-item:hover {
+            background: var(--tagtics-surface-hover);
+            transform: scale(1.05);
+            box-shadow: 0 6px 16px var(--tagtics-shadow);
+        }
+        .tagtics-fab-container.open .tagtics-fab-item {
+            opacity: 1; transform: translateY(0) scale(1);
+            visibility: visible;
+        }
+        .tagtics-fab-label {
+            position: absolute; right: 60px;
+            background: var(--tagtics-surface-solid);
+            backdrop-filter: blur(8px);
+            color: var(--tagtics-text); padding: 6px 12px; border-radius: 8px;
+            font-size: 13px; font-weight: 500; white-space: nowrap;
+            opacity: 0; pointer-events: none;
+            box-shadow: 0 4px 12px var(--tagtics-shadow);
+            border: 1px solid var(--tagtics-border);
+            transform: translateX(10px);
+            transition: opacity 0.2s ease, transform 0.2s ease;
+        }
+        .tagtics-fab-item:hover .tagtics-fab-label,
+        .tagtics-fab-item:focus-visible .tagtics-fab-label {
+            opacity: 1;
+            transform: translateX(0);
+        }
+        .pos-left .tagtics-fab-label { right: auto; left: 60px; transform: translateX(-10px); }
+
+        /* --- RTL --- */
+        /* direction inherits from the host's dir; only physical properties need flipping */
+        :host([dir="rtl"]) .element-desc { text-align: end; }
+        button:focus-visible, textarea:focus-visible {
+            outline: 2px solid var(--tagtics-accent-text);
+            outline-offset: 2px;
+        }
+
+        /* Screen-reader only (live region announcements) */
+        .tagtics-sr-only {
+            position: absolute; width: 1px; height: 1px;
+            margin: -1px; padding: 0; overflow: hidden;
+            clip: rect(0, 0, 0, 0); white-space: nowrap; border: 0;
+        }
+
+        /* --- Modal (Glassmorphism) --- */
+        .tagtics-modal {
+            position: fixed;
+            bottom: calc(var(--tagtics-offset-y) + 80px); right: calc(var(--tagtics-offset-x) + 12px); width: 340px;
+            background: var(--tagtics-surface);
+            backdrop-filter: blur(20px);
+            -webkit-backdrop-filter: blur(20px);
+            border: 1px solid var(--tagtics-border);
+            border-radius: var(--tagtics-radius); 
+            box-shadow: 0 16px 40px var(--tagtics-shadow);
+            padding: 24px; 
+            display: none; flex-direction: column; gap: 16px;
+            pointer-events: auto;
+            color: var(--tagtics-text);
+            animation: modalIn 0.3s cubic-bezier(0.16, 1, 0.3, 1);
+        }
+        @keyframes modalIn {
+            from { opacity: 0; transform: translateY(20px) scale(0.95); }
+            to { opacity: 1; transform: translateY(0) scale(1); }
+        }
+        .tagtics-modal.open { display: flex; }
+        .tagtics-modal.pos-left { right: auto; left: calc(var(--tagtics-offset-x) + 12px); }
+        .tagtics-modal.pos-top { bottom: auto; top: calc(var(--tagtics-offset-y) + 80px); }
+
+        .element-desc { 
+            font-size: 11px; font-family: 'Menlo', 'Monaco', monospace; 
+            color: var(--tagtics-accent-text); background: var(--tagtics-accent-bg);
+            padding: 8px 12px; border-radius: 8px;
+            word-break: break-all; border: 1px solid var(--tagtics-accent-border);
+            white-space: pre-line; direction: ltr; text-align: start; unicode-bidi: isolate;
+        }
+        
+        textarea { 
+            width: 100%; height: 100px; 
+            background: var(--tagtics-input-bg);
+            border: 1px solid var(--tagtics-border);
+            border-radius: var(--tagtics-radius-sm);
+            color: var(--tagtics-text); padding: 12px; box-sizing: border-box; 
+            font-family: inherit; font-size: 14px; resize: none;
+            outline: none; transition: border-color 0.2s, background 0.2s;
+        }
+        textarea:focus {
+            border-color: var(--tagtics-primary);
+            background: var(--tagtics-input-bg-focus);
+        }
+        textarea::placeholder { color: var(--tagtics-placeholder); }
+
+        .char-counter {
+            font-size: 12px;
+            color: var(--tagtics-text-muted);
+            text-align: end;
+            margin-top: -12px;
+            transition: color 0.2s;
+        }
+        .char-counter.near-limit { color: var(--tagtics-danger); }
+
+        .tagtics-draft-hint {
+            display: none; align-items: center; justify-content: space-between; gap: 8px;
+            font-size: 12px; color: var(--tagtics-text-muted);
+        }
+        .tagtics-draft-hint.visible { display: flex; }
+        .tagtics-draft-hint button {
+            background: none; border: none; padding: 0; cursor: pointer;
+            color: var(--tagtics-primary); font: inherit; text-decoration: underline;
+        }
+
+        .tagtics-thread { display: none; flex-direction: column; gap: 8px; max-height: 200px; overflow-y: auto; }
+        .tagtics-thread.visible { display: flex; }
+        .tagtics-thread-entry {
+            font-size: 13px; padding: 8px 12px; border-radius: 8px;
+            background: var(--tagtics-input-bg); border: 1px solid var(--tagtics-border);
+            white-space: pre-wrap; word-break: break-word;
+        }
+        .tagtics-thread-entry.reply { margin-inline-start: 16px; }
+        .tagtics-thread-votes { font-size: 12px; color: var(--tagtics-text-muted); }
+
+        button.primary { 
+            background: linear-gradient(135deg, var(--tagtics-primary), var(--tagtics-primary-end));
+            color: var(--tagtics-on-primary); border: none; padding: 12px 20px; 
+            border-radius: var(--tagtics-radius-sm); cursor: pointer; font-weight: 600; font-size: 14px;
+            box-shadow: 0 4px 12px var(--tagtics-primary-shadow);
+            transition: transform 0.1s, box-shadow 0.2s;
+        }
+        button.primary:hover {
+            transform: translateY(-1px);
+            box-shadow: 0 6px 16px var(--tagtics-primary-shadow);
+        }
+        button.primary:active { transform: translateY(1px); }
+
+        button.secondary {
+            background: var(--tagtics-button-bg);
+            color: var(--tagtics-text); border: 1px solid var(--tagtics-border-strong);
+            padding: 12px 20px; border-radius: var(--tagtics-radius-sm); cursor: pointer;
+            font-weight: 600; font-size: 14px;
+            transition: all 0.2s;
+            flex: 1;
+        }
+        button.secondary:hover {
+            background: var(--tagtics-button-bg-hover);
+            border-color: var(--tagtics-border-strong);
+        }
+        button.primary {
+            flex: 1;
+        }
+
+        .privacy-notice { font-size: 11px; color: var(--tagtics-text-muted); line-height: 1.4; }
+
+        /* --- Form Fields --- */
+        .tagtics-form { display: flex; flex-direction: column; gap: 12px; }
+        .tagtics-field { display: flex; flex-direction: column; gap: 6px; }
+        .tagtics-field.checkbox { flex-direction: row; flex-wrap: wrap; align-items: center; }
+        .tagtics-field-label { font-size: 12px; font-weight: 600; color: var(--tagtics-text-muted); }
+        .tagtics-field.checkbox .tagtics-field-label { font-weight: 400; color: var(--tagtics-text); }
+        .tagtics-field input:not([type="checkbox"]), .tagtics-field select {
+            background: var(--tagtics-input-bg);
+            border: 1px solid var(--tagtics-border);
+            border-radius: var(--tagtics-radius-sm);
+            color: var(--tagtics-text); padding: 8px 12px;
+            font-family: inherit; font-size: 13px; outline: none;
+        }
+        .tagtics-field input:focus, .tagtics-field select:focus { border-color: var(--tagtics-primary); }
+        .tagtics-field input[type="checkbox"] { accent-color: var(--tagtics-primary); margin: 0; }
+        .tagtics-chips { display: flex; flex-wrap: wrap; gap: 6px; }
+        .tagtics-chip {
+            background: var(--tagtics-button-bg);
+            color: var(--tagtics-text); border: 1px solid var(--tagtics-border);
+            padding: 4px 12px; border-radius: 999px; cursor: pointer;
+            font-family: inherit; font-size: 12px;
+        }
+        .tagtics-chip[aria-checked="true"] {
+            background: var(--tagtics-accent-bg); border-color: var(--tagtics-primary);
+            color: var(--tagtics-accent-text);
+        }
+        .tagtics-rating {
+            background: none; border: none; cursor: pointer; padding: 2px;
+            font-size: 20px; line-height: 1;
+        }
+        .tagtics-rating.stars { color: var(--tagtics-text-muted); }
+        .tagtics-rating.stars.filled { color: var(--tagtics-warning); }
+        .tagtics-rating.emoji { filter: grayscale(1); opacity: 0.6; }
+        .tagtics-rating.emoji[aria-checked="true"] { filter: none; opacity: 1; }
+        [aria-invalid="true"] { border-color: var(--tagtics-danger) !important; }
+        .tagtics-field-error { flex-basis: 100%; font-size: 11px; color: var(--tagtics-danger); }
+
+        /* --- Touch & Small Screens --- */
+        /* No hover to reveal labels, so open menus show them outright */
+        @media (hover: none) {
+            .tagtics-fab-container.open .tagtics-fab-label { opacity: 1; transform: none; }
+            .tagtics-fab-item:hover { transform: none; }
+        }
+        /* Bottom sheet that sits above the on-screen keyboard (--tagtics-keyboard-inset) */
+        @media (max-width: 768px) {
+            .tagtics-modal, .tagtics-modal.pos-left, .tagtics-modal.pos-top {
+                top: auto; left: 0; right: 0;
+                bottom: var(--tagtics-keyboard-inset, 0px);
+                width: auto; max-height: calc(100dvh - var(--tagtics-keyboard-inset, 0px) - 24px);
+                overflow-y: auto; overscroll-behavior: contain;
+                border-radius: var(--tagtics-radius) var(--tagtics-radius) 0 0;
+                padding: 20px calc(20px + env(safe-area-inset-right, 0px)) calc(20px + env(safe-area-inset-bottom, 0px)) calc(20px + env(safe-area-inset-left, 0px));
+                animation: sheetIn 0.3s cubic-bezier(0.16, 1, 0.3, 1);
+            }
+            /* 16px stops iOS from zooming into focused fields */
+            textarea, .tagtics-field input:not([type="checkbox"]), .tagtics-field select { font-size: 16px; }
+        }
+        @keyframes sheetIn {
+            from { transform: translateY(100%); }
+            to { transform: translateY(0); }
+        }
+        .tagtics-touch-confirm {
+            position: fixed; left: 12px; right: 12px;
+            bottom: calc(12px + env(safe-area-inset-bottom, 0px));
+            display: none; flex-direction: column; gap: 10px;
+            padding: 12px; pointer-events: auto;
+            background: var(--tagtics-surface-solid);
+            border: 1px solid var(--tagtics-border);
+            border-radius: var(--tagtics-radius-sm);
+            box-shadow: 0 8px 32px var(--tagtics-shadow);
+            color: var(--tagtics-text); font-size: 13px;
+            z-index: 2147483647;
+        }
+        .tagtics-touch-confirm.visible { display: flex; }
+        .tagtics-touch-confirm .actions { display: flex; gap: 8px; }
+        .tagtics-touch-confirm button { flex: 1; min-height: 44px; padding: 8px 12px; }
+        .tagtics-touch-confirm:not(.has-target) .needs-target { display: none; }
+
+        /* --- Highlights & Tooltips --- */
+        .tagtics-overlay {
+            position: fixed; top: 0; left: 0; width: 100%; height: 100%;
+            pointer-events: none;
+        }
+        .tagtics-highlight {
+            position: fixed; border: 2px solid var(--tagtics-highlight); background: var(--tagtics-highlight-bg);
+            pointer-events: none; transition: all 0.2s ease;
+            z-index: 2147483646; /* Internal z-index */
+        }
+        .tagtics-highlight.region, .tagtics-region { border-style: dashed; }
+        .tagtics-region {
+            position: fixed; display: none; pointer-events: none;
+            border: 2px dashed var(--tagtics-highlight); background: var(--tagtics-highlight-bg);
+            z-index: 2147483646;
+        }
+        .tagtics-selection-badge {
+            position: absolute; top: -10px; left: -10px;
+            min-width: 20px; height: 20px; border-radius: 10px;
+            background: var(--tagtics-highlight); color: #fff;
+            font-size: 11px; font-weight: 700; line-height: 20px; text-align: center;
+        }
+        .tagtics-pin-anchor { position: fixed; pointer-events: none; z-index: 2147483645; }
+        .tagtics-pin {
+            position: absolute; top: -12px; inset-inline-end: -12px;
+            min-width: 24px; height: 24px; padding: 0 6px; border-radius: 12px;
+            background: linear-gradient(135deg, var(--tagtics-primary), var(--tagtics-primary-end));
+            color: var(--tagtics-on-primary); border: 2px solid var(--tagtics-surface-solid);
+            font-size: 12px; font-weight: 700; cursor: pointer; pointer-events: auto;
+            box-shadow: 0 2px 6px var(--tagtics-primary-shadow);
+        }
+        .tagtics-tooltip {
+            position: fixed; background: var(--tagtics-surface-solid); 
+            backdrop-filter: blur(4px);
+            color: var(--tagtics-text); padding: 6px 10px;
+            border-radius: 6px; font-size: 11px; pointer-events: none; 
+            display: none; z-index: 2147483647;
+            border: 1px solid var(--tagtics-border);
+            box-shadow: 0 4px 12px var(--tagtics-shadow);
+        }
+
+        /* --- Toasts --- */
+        .tagtics-toast {
+            position: fixed; bottom: 40px; left: 50%; transform: translateX(-50%) translateY(20px);
+            background: var(--tagtics-surface-solid);
+            backdrop-filter: blur(12px);
+            -webkit-backdrop-filter: blur(12px);
+            color: var(--tagtics-text); padding: 12px 24px; 
+            border-radius: 50px; 
+            border: 1px solid var(--tagtics-border);
+            font-size: 14px; font-weight: 500;
+            opacity: 0; transition: all 0.4s cubic-bezier(0.16, 1, 0.3, 1);
+            z-index: 2147483647; pointer-events: none;
+            box-shadow: 0 8px 32px var(--tagtics-shadow);
+            display: flex; align-items: center; gap: 8px;
+        }
+        .tagtics-toast.visible { opacity: 1; transform: translateX(-50%) translateY(0); }
+        .tagtics-toast.success { border-color: var(--tagtics-success); color: var(--tagtics-success-text); }
+        .tagtics-toast.success::before { content: '✓'; color: var(--tagtics-success); font-weight: bold; }
+        .tagtics-toast.error { border-color: var(--tagtics-danger); color: var(--tagtics-danger-text); }
+        .tagtics-toast.error::before { content: '!'; color: var(--tagtics-danger); font-weight: bold; }
+
+        /* --- Testing Badge --- */
+        .tagtics-testing-badge {
+            background: var(--tagtics-warning);
+            color: #fff;
+            padding: 4px 8px;
+            border-radius: 12px;
+            font-size: 10px;
+            font-weight: 700;
+            text-transform: uppercase;
+            box-shadow: 0 2px 8px rgba(245, 158, 11, 0.4);
+            pointer-events: none;
+            z-index: 3;
+            margin-bottom: -8px; /* Pull it closer to the button */
+            white-space: nowrap;
+            letter-spacing: 0.5px;
+        }
+    `;
+    return style;
+}
+
+function getFocusable(container: HTMLElement): HTMLElement[] {
+    return Array.from(container.querySelectorAll<HTMLElement>('button, textarea, input, select, a[href], [tabindex]:not([tabindex="-1"])'))
+        .filter(el => !(el as HTMLButtonElement).disabled && el.style.display !== 'none');
+}
+
+// Generate Breadcrumb Path (up to 3 levels up or until ID)
+function describeElement(el: HTMLElement): string {
+    let currentEl: Element | null = el;
+    const pathParts: string[] = [];
+
+    // We'll traverse up to 3 levels max to keep it readable, or until we hit an ID
+    for (let i = 0; i < 4 && currentEl; i++) {
+        let name = currentEl.tagName.toLowerCase();
+
+        if (currentEl.id) {
+            name += `#${currentEl.id}`;
+            pathParts.unshift(name);
+            break; // Stop if we find an ID, that's usually specific enough
+        } else {
+            let className = '';
+            if (typeof currentEl.className === 'string') {
+                className = currentEl.className;
+            } else if (currentEl.className && typeof (currentEl.className as any).baseVal === 'string') {
+                className = (currentEl.className as any).baseVal;
+            }
+            if (className) {
+                // Only take the first class to save space
+                const firstClass = className.split(' ').filter(Boolean)[0];
+                if (firstClass) name += `.${firstClass}`;
+            }
+            pathParts.unshift(name);
+        }
+
+        currentEl = getComposedParent(currentEl);
+        if (currentEl === document.body || currentEl === document.documentElement) break;
+    }
+
+    return pathParts.join(' > ');
+}
+
+// Text-derived locators would leak what the serializer hides, so scrub or drop them
+function redactLocators(locators: LocatorBundle, el: HTMLElement, report: RedactionReport, rules?: RedactionRules): LocatorBundle {
+    const result = { ...locators };
+    if (isMasked(el, rules)) {
+        delete result.text;
+        delete result.role;
+        return result;
+    }
+    if (result.text && scrubText(result.text.text, undefined, rules) !== result.text.text) {
+        scrubText(result.text.text, report, rules);
+        delete result.text;
+    }
+    if (result.role && scrubText(result.role.name, undefined, rules) !== result.role.name) {
+        scrubText(result.role.name, report, rules);
+        delete result.role;
+    }
+    return result;
+}
+
+function getSelectedInfo(el: HTMLElement, depth: number, report: RedactionReport = createRedactionReport(), rules?: RedactionRules): SelectedElementInfo {
+    const ancestors: AncestorInfo[] = [];
+    let curr = getComposedParent(el);
+    while (curr && curr !== document.body) {
+        ancestors.push({
+            xpath: getXPath(curr),
+            tag: curr.tagName.toLowerCase(),
+            descriptor: `${curr.tagName.toLowerCase()}${curr.id ? '#' + curr.id : ''} `
+        });
+        curr = getComposedParent(curr);
+    }
+    return {
+        element: el,
+        xpath: getXPath(el),
+        tag: el.tagName.toLowerCase(),
+        descriptor: describeElement(el),
+        locators: redactLocators(getLocators(el), el, report, rules),
+        serialized: serializeElement(el, depth, 0, report, rules),
+        ancestors
+    };
+}
+
+
+function describeSelection(selection: Selection, translate: Translate): string {
+    if (selection.type === 'element') return describeElement(selection.element);
+    const { width, height } = selection.rect;
+    return translate('region', { width: String(Math.round(width)), height: String(Math.round(height)) });
+}
+
+// Drafts keep locators so the elements can be found again after a reload, redacted like a payload's
+function toDraftSelection(selection: Selection | PayloadSelection, rules?: RedactionRules): DraftSelection {
+    if ('locators' in selection) {
+        return selection.type === 'region' && selection.rect ? { type: 'region', rect: selection.rect } : { type: 'element', locators: selection.locators };
+    }
+    if (selection.type === 'region') return { type: 'region', rect: selection.rect };
+    return { type: 'element', locators: redactLocators(getLocators(selection.element), selection.element, createRedactionReport(), rules) };
+}
+
+
+
+// --- Client ---
+
+function isLocalhost(): boolean {
+    const hostname = window.location.hostname;
+    return hostname === 'localhost' || hostname === '127.0.0.1';
+}
+
+// The config in effect for a location: the base config plus every matching route's overrides
+export function resolveRouteConfig(config: TagticsConfig, location: Location = window.location): TagticsConfig {
+    return (config.routes || [])
+        .filter(route => matchesRoute(route.match, location))
+        .reduce<TagticsConfig>((resolved, route) => ({ ...resolved, ...route.overrides }), config);
+}
+
+// Settings baked into the widget DOM; changing one on navigation rebuilds it
+const UI_KEYS: (keyof TagticsConfig)[] = [
+    'privacyNotice', 'logoUrl', 'hideLauncher', 'testingMode', 'theme', 'position',
+    'locale', 'messages', 'form', 'maxLength', 'pageFeedbackOnly',
+];
+
+// Links from the local inbox (#tagtics-xpath=...) point at an element; highlight it
+// once it exists, retrying briefly for content that renders after load
+const LINKED_ELEMENT_RETRIES = 10;
+
+// Breadcrumbs and replay record the whole page, so one client runs them: the newest live one
+const liveClients: TagticsClient[] = [];
+const getServiceOwner = (): TagticsClient | undefined => liveClients[liveClients.length - 1];
+
+/**
+ * One widget instance. It owns its DOM, selection, listeners and teardown, so
+ * destroy() followed by a new client always starts from a clean page.
+ */
+export class TagticsClient {
+    private readonly baseConfig: TagticsConfig;
+    private config: TagticsConfig; // baseConfig with the current route's overrides
+    private events: TagticsEmitter;
+    // Per client, so two widgets on one page keep their own privacy rules, strings and delivery
+    private readonly id = createId();
+    private redaction: RedactionRules;
+    private i18n: Localization;
+    private destroyed = false;
+    private hostElement: HTMLElement | null = null;
+    private shadowRoot: ShadowRoot | null = null;
+    private modal: HTMLElement | null = null;
+    private formController: FormController | null = null;
+    private isPicking = false;
+    private selections: Selection[] = [];
+    private selectionHighlights = new Map<Element | ViewportRect, HTMLElement>();
+    private highlights = createHighlightTracker();
+    private lastFocused: HTMLElement | null = null;
+    private pendingPick: { resolve: (info: SelectedElementInfo) => void; reject: (reason: Error) => void } | null = null;
+    private pickTimer: ReturnType<typeof setTimeout> | undefined;
+    private stopPickListeners: (() => void) | null = null;
+    private unblockEvents: (() => void) | null = null;
+    private remountPending = false;
+    private draftSelections: DraftSelection[] | null = null; // Targets of the open modal, for its draft key
+    private lastPath = window.location.pathname;
+    private pins: HTMLElement[] = []; // Review overlay anchors, tracked over their elements
+    private pinsRequest = 0; // Loads that finish after a newer one started are dropped
+    private thread: ReviewThread | null = null; // Open in the modal; sending replies to it
+    private submitting = false; // A send from the modal hasn't settled yet
+    // Removers for everything attached for the client's whole lifetime, and for the current widget DOM
+    private disposers: (() => void)[] = [];
+    private uiDisposers: (() => void)[] = [];
+
+    constructor(config: TagticsConfig, events: TagticsEmitter = createEmitter()) {
+        if (!config.apiKey) throw new Error('Tagtics: apiKey is required');
+        this.baseConfig = config;
+        this.config = resolveRouteConfig(config);
+        this.redaction = compileRedaction(this.config.redaction);
+        this.i18n = createLocalization(this.config.locale, this.config.messages);
+        this.events = events;
+
+        liveClients.push(this);
+        this.configurePage();
+
+        // Retry anything left over from earlier sessions
+        startOutbox(entry => this.deliver(entry), { beacon: !config.transport && !config.headers, apiKey: config.apiKey, owner: this.id });
+        this.logTestingMode();
+
+        // Initial check, then again after every SPA navigation
+        this.updateWidgetVisibility();
+        this.revealLinkedElement();
+        this.restoreDraft();
+        this.disposers.push(onRouteChange(() => this.handleRouteChange()));
+    }
+
+    on<K extends TagticsEventName>(event: K, handler: TagticsEventHandler<K>): () => void {
+        return this.events.on(event, handler);
+    }
+
+    off<K extends TagticsEventName>(event: K, handler: TagticsEventHandler<K>): void {
+        this.events.off(event, handler);
+    }
+
+    // Adds a listener that is removed with the widget DOM
+    private listen<K extends keyof WindowEventMap>(target: Window, type: K, handler: (e: WindowEventMap[K]) => void, options?: AddEventListenerOptions): void;
+    private listen(target: EventTarget, type: string, handler: EventListener, options?: AddEventListenerOptions): void;
+    private listen(target: EventTarget, type: string, handler: EventListener, options?: AddEventListenerOptions): void {
+        target.addEventListener(type, handler, options);
+        this.uiDisposers.push(() => target.removeEventListener(type, handler, options));
+    }
+
+    // Breadcrumbs and replay are page-wide, so only the owning client sets them and their redaction
+    private configurePage(previous?: TagticsConfig) {
+        if (getServiceOwner() !== this) return;
+        const config = this.config;
+        configureRedaction(config.redaction);
+        // Restarting would empty the buffers
+        if (!previous || previous.breadcrumbs !== config.breadcrumbs) {
+            if (config.breadcrumbs) {
+                // Failed feedback deliveries (of any client) are reported through the outbox, not as breadcrumbs
+                const isFeedbackUrl = (url: string) => liveClients.some(client => stripUrl(url) === stripUrl(client.getEndpoint()));
+                startBreadcrumbs(config.breadcrumbs === true ? {} : config.breadcrumbs, isFeedbackUrl);
+            } else {
+                stopBreadcrumbs();
+            }
+        }
+        if (!previous || previous.replay !== config.replay) {
+            if (config.replay) {
+                startReplay(config.replay === true ? {} : config.replay, el => el.id === 'tagtics-host');
+            } else {
+                stopReplay();
+            }
+        }
+    }
+
+    private handleRouteChange() {
+        const previous = this.config;
+        this.config = resolveRouteConfig(this.baseConfig);
+        if (previous.redaction !== this.config.redaction) this.redaction = compileRedaction(this.config.redaction);
+        if (previous.locale !== this.config.locale || previous.messages !== this.config.messages) {
+            this.i18n = createLocalization(this.config.locale, this.config.messages);
+        }
+        this.configurePage(previous);
+        if (this.hostElement && UI_KEYS.some(key => previous[key] !== this.config[key])) {
+            // Rebuilding mid-feedback would lose the text; closeModal() picks it up instead
+            if (this.isPicking || this.isModalOpen()) this.remountPending = true;
+            else this.unmount();
+        }
+        const mounted = this.hostElement;
+        this.updateWidgetVisibility();
+        // A rebuilt widget loads its pins in open()
+        if (this.hostElement && this.hostElement === mounted) this.loadPins();
+        // Routers rewrite the query and hash all the time; only a new path restores a draft
+        const path = window.location.pathname;
+        if (path !== this.lastPath) {
+            this.lastPath = path;
+            this.restoreDraft();
+        }
+    }
+
+    private isModalOpen(): boolean {
+        return !!this.modal && this.modal.style.display === 'flex';
+    }
+
+    // Removes the widget DOM and its listeners; open() builds it again from the current config
+    private unmount() {
+        this.uiDisposers.forEach(dispose => dispose());
+        this.uiDisposers = [];
+        this.renderSelectionHighlights([]);
+        this.highlights.clear();
+        this.hostElement?.remove();
+        this.hostElement = null;
+        this.shadowRoot = null;
+        this.modal = null;
+        this.formController = null;
+        this.remountPending = false;
+        this.pins = [];
+        this.pinsRequest++;
+    }
+
+
+    // --- UI & Interaction ---
+
+    private showToast(message: string, type: 'success' | 'error' = 'success') {
+        // Headless integrations report results through events and promises instead
+        if (!this.shadowRoot || this.config.hideLauncher) return;
+        let toast = this.shadowRoot.querySelector('.tagtics-toast') as HTMLElement;
+        if (!toast) {
+            toast = document.createElement('div');
+            toast.setAttribute('role', 'status');
+            this.shadowRoot.appendChild(toast);
+        }
+        // Reset classes to base
+        toast.className = 'tagtics-toast';
+        // Force reflow
+        void toast.offsetWidth;
+
+        toast.textContent = message;
+        toast.classList.add(type);
+        toast.classList.add('visible');
+
+        setTimeout(() => {
+            toast.classList.remove('visible');
+        }, 3000);
+    }
+
+    // Polite live region so screen readers follow picking without moving focus
+    private announce(message: string) {
+        const region = this.shadowRoot?.querySelector('.tagtics-sr-only');
+        if (!region) return;
+        region.textContent = '';
+        // Clearing first makes repeated messages announce again
+        setTimeout(() => { region.textContent = message; }, 50);
+    }
+
+    // Keeps Tab and Shift+Tab cycling inside the open modal
+    private trapFocus(e: KeyboardEvent) {
+        const modal = this.modal;
+        if (e.key !== 'Tab' || !modal) return;
+        const focusable = getFocusable(modal);
+        if (focusable.length === 0) return;
+
+        const active = this.shadowRoot!.activeElement;
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && (active === first || !modal.contains(active))) {
+            e.preventDefault();
+            last.focus();
+        } else if (!e.shiftKey && (active === last || !modal.contains(active))) {
+            e.preventDefault();
+            first.focus();
+        }
+    }
+
+    private blockEvents() {
+        // Block all interaction events to stop focus, typing, clicking links etc.
+        const events = [
+            'keydown', 'keypress', 'keyup',
+            'mousedown', 'mouseup', 'touchstart', 'touchend',
+            'focus', 'focusin'
+        ];
+        const handler = (e: Event) => {
+            // Our own controls (e.g. the touch confirm bar) stay usable
+            if (this.hostElement && e.composedPath().includes(this.hostElement)) return;
+            // Allow Escape key and page reload keys
+            if (e.type === 'keydown' || e.type === 'keyup' || e.type === 'keypress') {
+                const key = (e as KeyboardEvent).key;
+                const ctrlKey = (e as KeyboardEvent).ctrlKey;
+                const metaKey = (e as KeyboardEvent).metaKey;
+
+                // Allow Escape, F5, Ctrl+R, Cmd+R
+                if (key === 'Escape') return;
+                if (key === 'F5') return;
+                if ((ctrlKey || metaKey) && (key === 'r' || key === 'R')) return;
+            }
+            // Cancelling touchstart would stop the page from scrolling while picking
+            if (e.type !== 'touchstart') e.preventDefault();
+            e.stopPropagation();
+        };
+        // Same-origin iframes get their own blocker, their events never reach our window
+        const targets: Window[] = [window, ...getFrameDocuments().map(doc => doc.defaultView!).filter(Boolean)];
+        targets.forEach(target => {
+            events.forEach(evt => target.addEventListener(evt, handler, { capture: true, passive: false }));
+        });
+        this.unblockEvents = () => {
+            targets.forEach(target => {
+                events.forEach(evt => target.removeEventListener(evt, handler, { capture: true }));
+            });
+        };
+    }
+
+    private getDraftOptions(): DraftOptions | null {
+        const { drafts, hideLauncher } = this.config;
+        // Headless integrations own their text
+        if (drafts === false || hideLauncher) return null;
+        return drafts === true || !drafts ? {} : drafts;
+    }
+
+    // Saves what the open modal holds; an emptied modal deletes its draft
+    private persistDraft() {
+        const options = this.getDraftOptions();
+        const textarea = this.modal?.querySelector('textarea');
+        if (!options || !textarea || !this.draftSelections || !this.isModalOpen()) return;
+        const path = window.location.pathname;
+        const draft = this.redactDraft({ path, feedback: textarea.value, fields: this.formController?.getValues(), selections: this.draftSelections, savedAt: Date.now() });
+        const hasFields = !!draft.fields && Object.entries(draft.fields).some(([key, value]) => key === 'custom'
+            ? Object.values(value as Record<string, string | boolean>).some(Boolean)
+            : value !== undefined);
+        if (!draft.feedback.trim() && !hasFields) {
+            removeDraft(getDraftKey(path, this.draftSelections), options);
+            return;
+        }
+        saveDraft(draft, options);
+    }
+
+    // Drafts sit in plain storage, so typed text is scrubbed with the redaction rules and the email isn't kept
+    private redactDraft(draft: Draft): Draft {
+        const scrub = (text: string) => scrubText(text, undefined, this.redaction);
+        const redacted: Draft = { ...draft, feedback: scrub(draft.feedback) };
+        if (draft.fields) {
+            const { email, custom, ...choices } = draft.fields;
+            redacted.fields = custom
+                ? { ...choices, custom: Object.fromEntries(Object.entries(custom).map(([name, value]) => [name, typeof value === 'string' ? scrub(value) : value])) }
+                : choices;
+        }
+        return redacted;
+    }
+
+    // Fills the open modal from a draft unless the user already typed something
+    private applyDraft(draft: Draft) {
+        const textarea = this.modal?.querySelector('textarea');
+        if (!textarea || textarea.value) return;
+        textarea.value = draft.feedback;
+        textarea.dispatchEvent(new Event('input'));
+        if (draft.fields) this.formController?.setValues(draft.fields);
+        this.shadowRoot?.querySelector('.tagtics-draft-hint')?.classList.add('visible');
+        this.announce(this.i18n.t('draftRestored'));
+    }
+
+    /**
+     * Reopens the newest draft for this page with its elements selected again,
+     * on load and when the path changes. Drafts the user closed stay closed.
+     * Elements that render late get a few retries; drafts whose elements never
+     * appear stay saved until they expire.
+     */
+    private restoreDraft(attempt = 0) {
+        const options = this.getDraftOptions();
+        if (this.destroyed || !options || !this.hostElement || this.isPicking || this.isModalOpen()) return;
+        const draft = getLatestDraft(window.location.pathname, options);
+        if (!draft || isDraftDismissed(getDraftKey(draft.path, draft.selections))) return;
+
+        const selections: Selection[] = [];
+        for (const saved of draft.selections) {
+            if (saved.type === 'region') {
+                selections.push({ type: 'region', rect: saved.rect });
+                continue;
+            }
+            const element = locateElement(saved.locators)?.element;
+            if (!isHTMLElement(element)) {
+                if (attempt < LINKED_ELEMENT_RETRIES) setTimeout(() => this.restoreDraft(attempt + 1), 300);
+                return;
+            }
+            selections.push({ type: 'element', element });
+        }
+        // The element may have moved; the draft is saved again under its new key on the next edit
+        removeDraft(getDraftKey(draft.path, draft.selections), options);
+        this.setSelections(selections);
+        this.showModal(selections.length > 0, draft);
+        this.persistDraft();
+    }
+
+    // The outbox discards rejected submissions, so the text goes back into the modal for another try
+    private restoreUnsent(draft: Draft, targets: Selection[], thread: ReviewThread | null) {
+        if (this.destroyed || !this.modal || this.isPicking || this.isModalOpen()) {
+            // Something else is open now; keep the text as a draft instead
+            const options = this.getDraftOptions();
+            if (options && !thread) saveDraft(this.redactDraft(draft), options);
+            return;
+        }
+        this.thread = thread;
+        this.setSelections(targets.filter(target => target.type === 'region' || target.element.isConnected));
+        this.showModal(targets.length > 0, draft);
+        this.persistDraft();
+    }
+
+    private showModal(fromPicking: boolean, draft?: Draft) {
+        const modal = this.modal;
+        if (!modal) return;
+        modal.style.display = 'flex';
+        // Replies aren't kept as drafts; they would take the element's draft key
+        this.draftSelections = this.thread ? null : this.selections.map(selection => toDraftSelection(selection, this.redaction));
+        const draftOptions = this.getDraftOptions();
+        const draftKey = this.draftSelections && getDraftKey(window.location.pathname, this.draftSelections);
+        if (draftKey) setDraftDismissed(draftKey, false);
+        const saved = draft || (draftOptions && draftKey && getDraft(draftKey, draftOptions));
+        if (saved) this.applyDraft(saved);
+        this.renderThread(this.thread);
+
+        const desc = this.shadowRoot!.querySelector('.element-desc') as HTMLElement;
+        if (desc) {
+            desc.style.display = fromPicking ? 'block' : 'none';
+        }
+        const repickBtn = modal.querySelector('.secondary') as HTMLElement;
+        if (repickBtn) {
+            repickBtn.style.display = fromPicking && !this.thread ? 'block' : 'none';
+        }
+        const fab = this.shadowRoot!.querySelector('.tagtics-fab-container') as HTMLElement;
+        if (fab) fab.style.display = 'none';
+
+        const active = this.shadowRoot!.activeElement || document.activeElement;
+        if (active instanceof HTMLElement && !modal.contains(active)) this.lastFocused = active;
+        const textarea = modal.querySelector('textarea');
+        if (textarea) setTimeout(() => textarea.focus(), 0);
+
+        this.events.emit('open', { mode: fromPicking ? 'element' : 'page' });
+    }
+
+    private startPicking() {
+        const shadowRoot = this.shadowRoot!;
+        const hostElement = this.hostElement;
+        this.isPicking = true;
+        this.blockEvents();
+        this.modal!.style.display = 'none';
+        const fab = shadowRoot.querySelector('.tagtics-fab-container') as HTMLElement;
+        if (fab) {
+            fab.classList.remove('open');
+            fab.style.display = 'none'; // Hide entirely during picking
+        }
+        const docs = [document, ...getFrameDocuments()];
+        docs.forEach(doc => { if (doc.body) doc.body.style.cursor = 'crosshair'; });
+        this.events.emit('pick');
+
+        // Reuse or create highlight elements
+        let highlightBox = shadowRoot.querySelector('.tagtics-highlight.hover') as HTMLElement;
+        if (!highlightBox) {
+            highlightBox = document.createElement('div');
+            highlightBox.className = 'tagtics-highlight hover';
+            shadowRoot.appendChild(highlightBox);
+        }
+        highlightBox.style.display = 'none';
+
+        let tooltip = shadowRoot.querySelector('.tagtics-tooltip') as HTMLElement;
+        if (!tooltip) {
+            tooltip = document.createElement('div');
+            tooltip.className = 'tagtics-tooltip';
+            tooltip.innerText = this.i18n.t('embeddedNotSelectable');
+            shadowRoot.appendChild(tooltip);
+        }
+        tooltip.style.display = 'none';
+
+        this.announce(this.i18n.t('pickingInstructions'));
+
+        // Shared by mouse and keyboard so arrow keys continue from the hovered element
+        let keyboardTarget: HTMLElement | null = null;
+
+        // The hover box follows its target through scrolling, resizes and re-renders
+        const highlight = (target: Element) => this.highlights.track(highlightBox, target);
+        const hideHighlight = () => {
+            this.highlights.untrack(highlightBox);
+            highlightBox.style.display = 'none';
+        };
+
+        // Shift+click, Shift+Enter and Shift+drag collect targets; a plain one finishes
+        let picked: Selection[] = [];
+
+        const togglePicked = (selection: Selection) => {
+            picked = toggleSelection(picked, selection);
+            this.renderSelectionHighlights(picked);
+            this.announce(this.i18n.t('selectionCount', { count: String(picked.length) }));
+        };
+
+        const finishPick = (last?: Selection) => {
+            if (last && !(last.type === 'element' && picked.some(s => s.type === 'element' && s.element === last.element))) {
+                picked = [...picked, last];
+            }
+            if (!picked.length) return;
+            // A programmatic pick() resolves with the element instead of opening the modal
+            const request = this.pendingPick;
+            this.pendingPick = null;
+            const result = picked;
+            if (request) {
+                this.stopPicking(false);
+                this.setSelections(result);
+            } else {
+                // Selected before the modal opens so it finds the draft for these elements
+                this.setSelections(result);
+                this.stopPicking();
+            }
+            request?.resolve(this.getSelectedInfo(this.getPrimaryElement(result)));
+        };
+
+        const mouseOverHandler = (e: MouseEvent) => {
+            if (!this.isPicking || dragStart) return;
+            // composedPath() reaches inside open shadow roots; e.target stops at the host
+            const target = getEventTarget(e);
+            if (!target) return;
+
+            // Check for iframes/embeds
+            if (target.tagName === 'IFRAME' || target.tagName === 'EMBED' || target.tagName === 'OBJECT') {
+                if (isCrossOrigin(target as HTMLIFrameElement)) {
+                    const rect = getViewportRect(target);
+                    tooltip.style.display = 'block';
+                    tooltip.style.top = `${rect.top - 30}px`;
+                    tooltip.style.left = `${rect.left}px`;
+                    hideHighlight();
+                    return;
+                }
+            }
+            tooltip.style.display = 'none';
+
+            if (target === hostElement || target.id === 'tagtics-host') return;
+
+            keyboardTarget = target;
+            highlight(target);
+        };
+
+        const isOwnUi = (e: Event) => !!hostElement && e.composedPath().includes(hostElement);
+
+        // The event that follows a drag or long-press must not pick (or reach) the element under it
+        const swallowNext = (type: string, timeout: number) => {
+            const swallow = (ev: Event) => { ev.preventDefault(); ev.stopPropagation(); };
+            window.addEventListener(type, swallow, { capture: true, once: true });
+            setTimeout(() => window.removeEventListener(type, swallow, { capture: true }), timeout);
+        };
+
+        const clickHandler = (e: MouseEvent) => {
+            if (!this.isPicking || isOwnUi(e)) return;
+            e.preventDefault();
+            e.stopPropagation();
+
+            const target = getEventTarget(e);
+            if (!target) return;
+
+            // Check for iframes/embeds
+            if (target.tagName === 'IFRAME' || target.tagName === 'EMBED' || target.tagName === 'OBJECT') {
+                if (isCrossOrigin(target as HTMLIFrameElement)) {
+                    return;
+                }
+            }
+
+            if (target === hostElement || target.id === 'tagtics-host') return;
+
+            const selection: Selection = { type: 'element', element: target };
+            if (e.shiftKey) togglePicked(selection);
+            else finishPick(selection);
+        };
+
+        // --- Region drawing: drag on the top-level page ---
+        const regionBox = document.createElement('div');
+        regionBox.className = 'tagtics-region';
+        let dragStart: { x: number; y: number } | null = null;
+
+        const mouseDownHandler = (e: MouseEvent) => {
+            if (!this.isPicking || e.button !== 0 || isOwnUi(e)) return;
+            dragStart = { x: e.clientX, y: e.clientY };
+        };
+
+        const mouseMoveHandler = (e: MouseEvent) => {
+            if (!dragStart) return;
+            const rect = rectFromPoints(dragStart, { x: e.clientX, y: e.clientY });
+            if (rect.width < DRAG_THRESHOLD && rect.height < DRAG_THRESHOLD) return;
+            hideHighlight();
+            regionBox.style.display = 'block';
+            regionBox.style.top = `${rect.top}px`;
+            regionBox.style.left = `${rect.left}px`;
+            regionBox.style.width = `${rect.width}px`;
+            regionBox.style.height = `${rect.height}px`;
+        };
+
+        const mouseUpHandler = (e: MouseEvent) => {
+            if (!dragStart) return;
+            const rect = rectFromPoints(dragStart, { x: e.clientX, y: e.clientY });
+            dragStart = null;
+            regionBox.style.display = 'none';
+            if (rect.width < DRAG_THRESHOLD && rect.height < DRAG_THRESHOLD) return;
+
+            swallowNext('click', 0);
+
+            const selection: Selection = { type: 'region', rect };
+            if (e.shiftKey) togglePicked(selection);
+            else finishPick(selection);
+        };
+
+        // --- Touch: a tap highlights and asks for confirmation, a long-press picks at once ---
+        const touchConfirm = document.createElement('div');
+        touchConfirm.className = 'tagtics-touch-confirm';
+        touchConfirm.setAttribute('role', 'toolbar');
+        const touchLabel = document.createElement('div');
+        touchLabel.textContent = this.i18n.t('touchInstructions');
+        touchConfirm.appendChild(touchLabel);
+        const touchActions = document.createElement('div');
+        touchActions.className = 'actions';
+        const touchButton = (label: string, className: string, onTap: () => void) => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = className;
+            button.textContent = label;
+            button.onclick = onTap;
+            touchActions.appendChild(button);
+        };
+        let touchTarget: HTMLElement | null = null;
+        touchButton(this.i18n.t('cancel'), 'secondary', () => this.stopPicking(false));
+        touchButton(this.i18n.t('add'), 'secondary needs-target', () => {
+            if (!touchTarget) return;
+            togglePicked({ type: 'element', element: touchTarget });
+            touchTarget = null;
+            touchConfirm.classList.remove('has-target');
+            touchLabel.textContent = this.i18n.t('touchInstructions');
+        });
+        touchButton(this.i18n.t('select'), 'primary needs-target', () => {
+            if (touchTarget) finishPick({ type: 'element', element: touchTarget });
+        });
+        touchConfirm.appendChild(touchActions);
+
+        const showTouchConfirm = (target: HTMLElement) => {
+            touchTarget = target;
+            keyboardTarget = target;
+            highlight(target);
+            touchLabel.textContent = describeElement(target);
+            touchConfirm.classList.add('visible', 'has-target');
+            this.announce(touchLabel.textContent);
+        };
+
+        let touchStart: { x: number; y: number; target: HTMLElement } | null = null;
+        let longPressTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const touchStartHandler = (e: TouchEvent) => {
+            if (!this.isPicking || isOwnUi(e) || e.touches.length !== 1) return;
+            touchConfirm.classList.add('visible');
+            const target = getEventTarget(e);
+            if (!target || target === hostElement) return;
+            if (target.tagName === 'IFRAME' && isCrossOrigin(target as HTMLIFrameElement)) return;
+
+            touchStart = { x: e.touches[0].clientX, y: e.touches[0].clientY, target };
+            clearTimeout(longPressTimer);
+            longPressTimer = setTimeout(() => {
+                if (!touchStart) return;
+                touchStart = null;
+                if (typeof navigator.vibrate === 'function') navigator.vibrate(10);
+                // The finger is still down; its touchend would otherwise become a click on the page
+                swallowNext('touchend', 3000);
+                finishPick({ type: 'element', element: target });
+            }, LONG_PRESS_MS);
+        };
+
+        const touchMoveHandler = (e: TouchEvent) => {
+            if (!touchStart) return;
+            const touch = e.touches[0];
+            // Scrolling, not tapping
+            if (!touch || Math.hypot(touch.clientX - touchStart.x, touch.clientY - touchStart.y) > TOUCH_SLOP) {
+                touchStart = null;
+                clearTimeout(longPressTimer);
+            }
+        };
+
+        const touchEndHandler = () => {
+            clearTimeout(longPressTimer);
+            if (!touchStart) return;
+            const { target } = touchStart;
+            touchStart = null;
+            showTouchConfirm(target);
+        };
+
+        // --- Keyboard picking: arrows/Tab walk the tree, Enter selects ---
+        const isPickable = (el: Element | null | undefined): el is HTMLElement =>
+            isHTMLElement(el) && el !== hostElement && el !== document.body && el !== document.documentElement;
+
+        const getSiblings = (el: Element) => {
+            const parent = getComposedParent(el);
+            return parent ? getComposedChildren(parent).filter(isPickable) : [el];
+        };
+
+        const getStartElement = (): HTMLElement | null => {
+            const active = document.activeElement;
+            if (isPickable(active)) return active;
+            const main = document.querySelector('main');
+            return isPickable(main) ? main : Array.from(document.body.children).find(isPickable) || null;
+        };
+
+        const moveTo = (next: Element | null | undefined) => {
+            if (!isPickable(next)) return;
+            keyboardTarget = next;
+            highlight(next);
+            if (typeof next.scrollIntoView === 'function') next.scrollIntoView({ block: 'nearest' });
+            this.announce(this.i18n.t('pickingFocus', { element: describeElement(next) }));
+        };
+
+        const keyHandler = (e: KeyboardEvent) => {
+            if (!this.isPicking) return;
+            const current = keyboardTarget && keyboardTarget.isConnected ? keyboardTarget : null;
+            const step = (offset: number) => {
+                if (!current) return moveTo(getStartElement());
+                const siblings = getSiblings(current);
+                moveTo(siblings[siblings.indexOf(current) + offset]);
+            };
+
+            switch (e.key) {
+                case 'ArrowUp':
+                    moveTo(current ? getComposedParent(current) : getStartElement());
+                    break;
+                case 'ArrowDown':
+                    moveTo(current ? getComposedChildren(current).find(isPickable) : getStartElement());
+                    break;
+                case 'ArrowLeft':
+                    step(-1);
+                    break;
+                case 'ArrowRight':
+                    step(1);
+                    break;
+                case 'Tab':
+                    step(e.shiftKey ? -1 : 1);
+                    break;
+                case 'Enter':
+                    if (current && e.shiftKey) togglePicked({ type: 'element', element: current });
+                    else finishPick(current ? { type: 'element', element: current } : undefined);
+                    break;
+                default:
+                    return;
+            }
+            e.preventDefault();
+        };
+
+        // Delay attaching listeners to avoid catching the triggering click
+        this.pickTimer = setTimeout(() => {
+            shadowRoot.appendChild(regionBox);
+            docs.forEach(doc => {
+                doc.addEventListener('mouseover', mouseOverHandler);
+                doc.addEventListener('click', clickHandler, { capture: true });
+            });
+            shadowRoot.appendChild(touchConfirm);
+            if (window.matchMedia?.('(pointer: coarse)').matches) touchConfirm.classList.add('visible');
+            // Runs after the blocker on the same target, which only stops propagation
+            window.addEventListener('keydown', keyHandler, { capture: true });
+            window.addEventListener('mousedown', mouseDownHandler, { capture: true });
+            window.addEventListener('mousemove', mouseMoveHandler);
+            window.addEventListener('mouseup', mouseUpHandler, { capture: true });
+            window.addEventListener('touchstart', touchStartHandler, { capture: true, passive: true });
+            window.addEventListener('touchmove', touchMoveHandler, { capture: true, passive: true });
+            window.addEventListener('touchend', touchEndHandler, { capture: true });
+        }, 50);
+
+        this.stopPickListeners = () => {
+            clearTimeout(this.pickTimer);
+            clearTimeout(longPressTimer);
+            window.removeEventListener('keydown', keyHandler, { capture: true });
+            window.removeEventListener('mousedown', mouseDownHandler, { capture: true });
+            window.removeEventListener('mousemove', mouseMoveHandler);
+            window.removeEventListener('mouseup', mouseUpHandler, { capture: true });
+            window.removeEventListener('touchstart', touchStartHandler, { capture: true });
+            window.removeEventListener('touchmove', touchMoveHandler, { capture: true });
+            window.removeEventListener('touchend', touchEndHandler, { capture: true });
+            docs.forEach(doc => {
+                doc.removeEventListener('mouseover', mouseOverHandler);
+                doc.removeEventListener('click', clickHandler, { capture: true });
+                if (doc !== document && doc.body) doc.body.style.cursor = '';
+            });
+            hideHighlight();
+            highlightBox.remove();
+            tooltip.remove();
+            regionBox.remove();
+            touchConfirm.remove();
+        };
+    }
+
+    private stopPicking(proceedToModal: boolean = true) {
+        this.isPicking = false;
+        this.unblockEvents?.();
+        this.unblockEvents = null;
+        document.body.style.cursor = 'default';
+        this.stopPickListeners?.();
+        this.stopPickListeners = null;
+        if (this.pendingPick) {
+            this.pendingPick.reject(new Error('Tagtics: Picking was cancelled'));
+            this.pendingPick = null;
+        }
+        if (proceedToModal) {
+            this.showModal(true);
+        } else {
+            this.closeModal();
+        }
+    }
+
+    private getSelectedInfo(el: HTMLElement, report?: RedactionReport): SelectedElementInfo {
+        return getSelectedInfo(el, this.config.serializeChildDepth || 0, report, this.redaction);
+    }
+
+    // Regions resolve to the deepest element that covers them
+    private getPrimaryElement(list: Selection[]): HTMLElement {
+        const first = list.find(sel => sel.type === 'element') || list[0];
+        return first.type === 'element' ? first.element : getRegionContainer(first.rect, this.hostElement);
+    }
+
+    // Numbered boxes for every selection; an empty list clears them. Boxes that are
+    // already shown stay put, new element boxes step in from the element's parents.
+    private renderSelectionHighlights(list: Selection[]) {
+        const boxes = new Map<Element | ViewportRect, HTMLElement>();
+        list.forEach((selection, i) => {
+            const key = selection.type === 'element' ? selection.element : selection.rect;
+            let box = this.selectionHighlights.get(key);
+            const isNew = !box;
+            if (!box) {
+                box = document.createElement('div');
+                box.className = `tagtics-highlight selection ${selection.type}`;
+                this.shadowRoot?.appendChild(box);
+            }
+            box.querySelector('.tagtics-selection-badge')?.remove();
+            if (list.length > 1) {
+                const badge = document.createElement('span');
+                badge.className = 'tagtics-selection-badge';
+                badge.textContent = String(i + 1);
+                box.appendChild(badge);
+            }
+            if (selection.type === 'element') {
+                this.highlights.track(box, selection.element, isNew ? getAncestorPath(selection.element) : []);
+            } else {
+                // Regions are drawn in viewport coordinates and stay where they were drawn
+                box.style.position = 'fixed';
+                box.style.top = `${selection.rect.top}px`;
+                box.style.left = `${selection.rect.left}px`;
+                box.style.width = `${selection.rect.width}px`;
+                box.style.height = `${selection.rect.height}px`;
+            }
+            boxes.set(key, box);
+        });
+        this.selectionHighlights.forEach((box, key) => {
+            if (boxes.has(key)) return;
+            this.highlights.untrack(box);
+            box.remove();
+        });
+        this.selectionHighlights = boxes;
+    }
+
+    private setSelections(list: Selection[]) {
+        this.selections = list;
+
+        const descriptors = list.map(selection => describeSelection(selection, this.i18n.t));
+        const descEl = this.shadowRoot?.querySelector('.element-desc');
+        if (descEl) {
+            descEl.textContent = list.length > 1
+                ? descriptors.map((descriptor, i) => `${i + 1}. ${descriptor}`).join('\n')
+                : descriptors.join('');
+        }
+        list.forEach((selection, i) => {
+            if (selection.type === 'element') {
+                this.events.emit('select', { element: selection.element, descriptor: descriptors[i], xpath: getXPath(selection.element) });
+            }
+        });
+
+        // Keep highlighted
+        this.renderSelectionHighlights(list);
+    }
+
+    // Validates the form fields in place; nothing is sent until they pass
+    private submitFromModal(text: string) {
+        if (this.submitting) return;
+        if (this.thread) {
+            if (text.trim()) this.sendFromModal(text, undefined, { replyTo: this.thread.item.submissionId });
+            return;
+        }
+        const fields = this.formController?.getValues();
+        if (fields) {
+            const errors = validateFields(fields, this.config.form, this.i18n.t);
+            this.formController!.showErrors(errors);
+            if (errors.length) return;
+        }
+        this.sendFromModal(text, fields);
+    }
+
+    // Screenshots and beforeSend take a while; a second click must not queue the same feedback twice
+    private sendFromModal(text: string, fields?: FeedbackFields, reply?: Pick<FeedbackPayload, 'replyTo' | 'upvote'>) {
+        if (this.submitting) return;
+        this.setSubmitting(true);
+        this.sendFeedback(text, this.selections, fields, reply).finally(() => this.setSubmitting(false));
+    }
+
+    private setSubmitting(submitting: boolean) {
+        this.submitting = submitting;
+        this.modal?.querySelectorAll<HTMLButtonElement>('button.primary, .tagtics-upvote').forEach(button => {
+            button.disabled = submitting;
+        });
+    }
+
+    // Payload entry for one selection; regions describe the element that contains them
+    private serializeSelection(selection: Selection, report: RedactionReport): PayloadSelection {
+        const target = selection.type === 'element' ? selection.element : getRegionContainer(selection.rect, this.hostElement);
+        const { xpath, tag, descriptor, locators, serialized, ancestors } = this.getSelectedInfo(target, report);
+        const rect = selection.type === 'element' ? getViewportRect(target) : selection.rect;
+        return { type: selection.type, xpath, tag, descriptor, locators, serialized, ancestors, rect };
+    }
+
+    private async sendFeedback(text: string, targets: Selection[] = this.selections, fields?: FeedbackFields, reply?: Pick<FeedbackPayload, 'replyTo' | 'upvote'>): Promise<SubmitOutcome> {
+        const config = this.config;
+        // Captured now: closeModal() below resets both
+        const fromModal = this.isModalOpen();
+        const thread = this.thread;
+        const redactions = createRedactionReport();
+        const payloadSelections = targets.map(selection => this.serializeSelection(selection, redactions));
+
+        // `selected` mirrors the first selection for receivers that predate `selections`
+        let payloadSelected: PayloadSelected;
+        if (payloadSelections.length) {
+            const { type, rect, ...first } = payloadSelections[0];
+            payloadSelected = first;
+        } else {
+            payloadSelected = { tag: 'PAGE_FEEDBACK' };
+        }
+        const element = targets.length ? this.getPrimaryElement(targets) : null;
+
+        const { hasEmbeds, embedHostnames } = getEmbeds();
+
+        let payload: FeedbackPayload = {
+            schemaVersion: SCHEMA_VERSION,
+            submissionId: createId(),
+            feedback: text,
+            pageUrl: window.location.href,
+            path: window.location.pathname,
+            timestamp: Date.now(),
+            clientMeta: {
+                ua: navigator.userAgent,
+                viewport: { width: window.innerWidth, height: window.innerHeight }
+            },
+            selected: payloadSelected,
+            selections: payloadSelections,
+            hasEmbeds,
+            embedHostnames,
+            redactions
+        };
+
+        if (fields) {
+            payload.fields = fields;
+        }
+        if (reply) Object.assign(payload, reply);
+
+        // Set through identify() / setContext() for this browser session
+        const user = getUser();
+        if (user) payload.user = user;
+        const context = getContext();
+        if (Object.keys(context).length) payload.context = context;
+        if (config.release) payload.release = config.release;
+        if (config.environment) payload.environment = config.environment;
+
+        if (config.breadcrumbs) {
+            payload.breadcrumbs = getBreadcrumbs(redactions, this.redaction);
+        }
+
+        if (config.replay) {
+            const replay = getReplay(redactions, this.redaction);
+            if (replay) payload.replay = replay;
+        }
+
+        if (config.screenshot) {
+            payload.screenshot = await captureScreenshot(element, config.screenshot === true ? {} : config.screenshot, this.redaction);
+        }
+
+        try {
+            const intercepted = await this.runBeforeSend(payload);
+            if (!intercepted) {
+                this.closeModal();
+                return 'cancelled';
+            }
+            payload = intercepted;
+        } catch (e) {
+            console.error('Tagtics: beforeSend hook failed, feedback not sent', e);
+            this.events.emit('error', { payload, error: e, willRetry: false });
+            this.showToast(this.i18n.t('failed'), 'error');
+            return 'dropped';
+        }
+
+        // The outbox persists the payload first; only a dropped one gives its text back below
+        this.draftSelections = null; // Sent, not dismissed
+        this.closeModal();
+        const draftOptions = this.getDraftOptions();
+        if (draftOptions && !reply) removeDraft(getDraftKey(payload.path, payloadSelections.map(selection => toDraftSelection(selection))), draftOptions);
+
+        const entry = await enqueue(this.getEndpoint(), payload, payload.submissionId, this.id);
+        const outcome = await attemptDelivery(entry);
+
+        if (outcome === 'sent') {
+            this.events.emit('sent', { payload });
+            this.showToast(this.i18n.t('sent'), 'success');
+            if (this.config.review) this.loadPins();
+        } else if (outcome === 'retry') {
+            this.events.emit('error', { payload, willRetry: true });
+            this.showToast(this.i18n.t('queued'), 'error');
+        } else {
+            this.events.emit('error', { payload, willRetry: false });
+            this.showToast(this.i18n.t('failed'), 'error');
+            if (fromModal) {
+                const draft = { path: payload.path, feedback: text, fields, selections: payloadSelections.map(selection => toDraftSelection(selection)), savedAt: Date.now() };
+                this.restoreUnsent(draft, targets, thread);
+            }
+        }
+        return outcome;
+    }
+
+    // Config hook first, then 'beforeSend' listeners. Resolves to null when cancelled.
+    private async runBeforeSend(payload: FeedbackPayload): Promise<FeedbackPayload | null> {
+        if (this.config.beforeSend) {
+            const result = await this.config.beforeSend(payload);
+            if (result === false) return null;
+            if (result) payload = result;
+        }
+        return this.events.emit('beforeSend', payload) ? payload : null;
+    }
+
+    private getEndpoint(): string {
+        const config = this.config;
+        if (config.endpoint) return config.endpoint;
+
+        // Only on localhost (safety check); logTestingMode() explains otherwise
+        if (config.testingMode && isLocalhost()) {
+            const port = config.port || 3000;
+            return `http://localhost:${port}/tagtics/feedback`;
+        }
+        // Default to production endpoint
+        return `https://www.tagtics.online/new-feedback/${config.apiKey}`;
+    }
+
+    // Once per client: getEndpoint() runs for every request the breadcrumb recorder sees
+    private logTestingMode() {
+        if (!this.config.testingMode || this.config.endpoint) return;
+        if (isLocalhost()) {
+            console.log(`[Tagtics] Testing mode enabled. Sending feedback to ${this.getEndpoint()}`);
+        } else {
+            console.warn('[Tagtics] Testing mode passed but not running on localhost. modify your config to enable testingMode only on localhost.');
+        }
+    }
+
+    private async resolveHeaders(): Promise<Record<string, string>> {
+        const custom = typeof this.config.headers === 'function' ? await this.config.headers() : this.config.headers;
+        return {
+            'Content-Type': 'application/json',
+            'x-api-key': this.config.apiKey,
+            ...custom
+        };
+    }
+
+    private async deliver(entry: OutboxEntry): Promise<DeliveryResult> {
+        if (this.destroyed) return { ok: false };
+        try {
+            if (this.config.transport) {
+                const result = await this.config.transport(JSON.parse(entry.body));
+                return { ok: result.ok, status: result.status };
+            }
+            const response = await fetch(entry.endpoint, {
+                method: 'POST',
+                headers: await this.resolveHeaders(),
+                body: entry.body,
+                keepalive: entry.body.length < 60000 // keepalive bodies are capped at 64KB
+            });
+            return { ok: response.ok, status: response.status };
+        } catch (e) {
+            console.error('Tagtics: Failed to send feedback', e);
+            return { ok: false };
+        }
+    }
+
+    private closeModal() {
+        const modal = this.modal;
+        const wasOpen = this.isModalOpen();
+        if (modal) modal.style.display = 'none';
+        this.renderSelectionHighlights([]);
+        this.selections = [];
+        if (wasOpen && this.draftSelections) setDraftDismissed(getDraftKey(window.location.pathname, this.draftSelections), true);
+        this.draftSelections = null;
+        this.thread = null;
+        this.renderThread(null);
+        this.shadowRoot?.querySelector('.tagtics-draft-hint')?.classList.remove('visible');
+        const textarea = this.shadowRoot?.querySelector('textarea');
+        if (textarea) {
+            textarea.value = '';
+            textarea.dispatchEvent(new Event('input'));
+        }
+        this.formController?.reset();
+        const fab = this.shadowRoot?.querySelector('.tagtics-fab-container') as HTMLElement;
+        if (fab) fab.style.display = 'flex';
+        if (wasOpen) {
+            // Hand focus back to whatever opened the modal
+            if (this.lastFocused && this.lastFocused.isConnected) this.lastFocused.focus();
+            this.lastFocused = null;
+            this.events.emit('close');
+        }
+        if (this.remountPending) {
+            this.unmount();
+            this.updateWidgetVisibility();
+        }
+    }
+
+
+    // Helper function to check if current path should show widget
+    private shouldShowOnCurrentPath(): boolean {
+        const config = this.config;
+        const path = window.location.pathname;
+
+        // 1. Exclude Checks
+        if (config.excludePaths) {
+            for (const pattern of config.excludePaths) {
+                try {
+                    if (new RegExp(pattern).test(path)) return false;
+                } catch (e) { console.warn('[Tagtics] Invalid excludePaths regex:', pattern); }
+            }
+        }
+
+        // 2. Include Checks
+        if (config.includePaths && config.includePaths.length > 0) {
+            let matched = false;
+            for (const pattern of config.includePaths) {
+                try {
+                    if (new RegExp(pattern).test(path)) {
+                        matched = true;
+                        break;
+                    }
+                } catch (e) { console.warn('[Tagtics] Invalid includePaths regex:', pattern); }
+            }
+            if (!matched) return false;
+        }
+
+        // 3. Payment page check
+        if (!config.allowSensitivePages) {
+            const detection = detectSensitivePage(config.sensitivePages);
+            if (detection.sensitive) {
+                if (config.testingMode) {
+                    console.log('[Tagtics] Hidden on sensitive page:', detection.reasons.map(reason => `${reason.signal}: ${reason.detail}`));
+                }
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    // Helper function to show/hide widget based on current path
+    private updateWidgetVisibility() {
+        const shouldShow = this.shouldShowOnCurrentPath();
+        const currentPath = window.location.pathname;
+        const hostElement = this.hostElement;
+
+        console.log('[Tagtics] Route change detected:', currentPath, 'shouldShow:', shouldShow, 'hostElement exists:', !!hostElement);
+
+        if (shouldShow && !hostElement) {
+            // Show widget
+            console.log('[Tagtics] Opening widget');
+            this.open();
+        } else if (!shouldShow && hostElement) {
+            // Hide widget
+            console.log('[Tagtics] Hiding widget');
+            hostElement.style.display = 'none';
+        } else if (shouldShow && hostElement) {
+            // Already showing, make sure it's visible
+            console.log('[Tagtics] Widget already open, ensuring visibility');
+            hostElement.style.display = 'block';
+        }
+    }
+
+    private revealLinkedElement(attempt = 0) {
+        const match = window.location.hash.match(/tagtics-xpath=([^&]+)/);
+        if (!match || !this.shadowRoot) return;
+        let xpath = '';
+        try {
+            xpath = decodeURIComponent(match[1]);
+        } catch (e) {
+            return;
+        }
+        const element = evaluateXPath(xpath);
+        if (!isHTMLElement(element)) {
+            if (attempt < LINKED_ELEMENT_RETRIES) setTimeout(() => this.revealLinkedElement(attempt + 1), 300);
+            else console.warn('[Tagtics] Linked element not found:', xpath);
+            return;
+        }
+        if (typeof element.scrollIntoView === 'function') element.scrollIntoView({ block: 'center' });
+        this.renderSelectionHighlights([{ type: 'element', element }]);
+        // Stays until the next click or tap anywhere
+        this.listen(window, 'pointerdown', () => this.renderSelectionHighlights(this.selections), { capture: true, once: true });
+    }
+
+    // --- Review Overlay ---
+
+    private getReviewSource(): ReviewSource | null {
+        const review = this.config.review;
+        if (!review) return null;
+        return (review !== true && review.source) || this.getEndpoint();
+    }
+
+    // Numbered pins for the feedback already left on this path; clicking one opens its thread
+    private loadPins() {
+        this.drawPins().catch(e => console.warn('[Tagtics] Could not show review pins', e));
+    }
+
+    private async drawPins() {
+        const request = ++this.pinsRequest;
+        this.clearPins();
+        const source = this.getReviewSource();
+        if (!source || !this.shadowRoot || !this.shouldShowOnCurrentPath()) return;
+        const path = window.location.pathname;
+        let items: FeedbackPayload[];
+        try {
+            // Only our own endpoint expects the API key
+            const headers = source === this.getEndpoint() ? await this.resolveHeaders() : {};
+            items = await loadFeedback(source, path, headers);
+        } catch (e) {
+            console.warn('[Tagtics] Could not load feedback for review', e);
+            return;
+        }
+        const shadowRoot = this.shadowRoot;
+        if (request !== this.pinsRequest || !shadowRoot) return;
+
+        // Numbered among the drawn pins only, so the numbers don't skip
+        groupThreads(items, path).forEach(thread => {
+            const element = locateThread(thread);
+            if (!element) return; // Page feedback, or the element is gone
+            const number = String(this.pins.length + 1);
+            const anchor = document.createElement('div');
+            anchor.className = 'tagtics-pin-anchor';
+            const pin = document.createElement('button');
+            pin.className = 'tagtics-pin';
+            pin.textContent = number;
+            pin.setAttribute('aria-label', this.i18n.t('pinLabel', { number }));
+            pin.onclick = (e) => {
+                e.stopPropagation();
+                this.openThread(thread, element);
+            };
+            anchor.appendChild(pin);
+            shadowRoot.appendChild(anchor);
+            this.highlights.track(anchor, element);
+            this.pins.push(anchor);
+        });
+    }
+
+    private clearPins() {
+        this.pins.forEach(anchor => {
+            this.highlights.untrack(anchor);
+            anchor.remove();
+        });
+        this.pins = [];
+    }
+
+    private openThread(thread: ReviewThread, element: HTMLElement) {
+        this.closeModal();
+        this.thread = thread;
+        this.setSelections([{ type: 'element', element }]);
+        this.showModal(true);
+    }
+
+    // Shows the thread above the textarea and swaps the form for Reply / +1
+    private renderThread(thread: ReviewThread | null) {
+        const modal = this.modal;
+        const panel = modal?.querySelector('.tagtics-thread');
+        if (!modal || !panel) return;
+        panel.textContent = '';
+        panel.classList.toggle('visible', !!thread);
+        if (this.formController) this.formController.element.style.display = thread ? 'none' : '';
+        modal.querySelector('textarea')!.placeholder = this.i18n.t(thread ? 'replyPlaceholder' : 'placeholder');
+        (modal.querySelector('button.primary') as HTMLElement).textContent = this.i18n.t(thread ? 'reply' : 'send');
+        (modal.querySelector('.tagtics-upvote') as HTMLElement).style.display = thread ? 'block' : 'none';
+        if (!thread) return;
+
+        [thread.item, ...thread.replies].forEach((entry, i) => {
+            const el = document.createElement('div');
+            el.className = i ? 'tagtics-thread-entry reply' : 'tagtics-thread-entry';
+            el.textContent = entry.feedback;
+            panel.appendChild(el);
+        });
+        if (thread.votes) {
+            const votes = document.createElement('div');
+            votes.className = 'tagtics-thread-votes';
+            votes.textContent = this.i18n.t('votes', { count: String(thread.votes) });
+            panel.appendChild(votes);
+        }
+    }
+
+    open(): void {
+        if (this.destroyed) {
+            console.warn('Tagtics: This client was destroyed; create a new one');
+            return;
+        }
+        if (this.hostElement) return;
+        const config = this.config;
+        const isPayment = detectSensitivePage(config.sensitivePages).sensitive;
+
+        const hostElement = document.createElement('div');
+        hostElement.id = 'tagtics-host';
+        hostElement.lang = this.i18n.locale;
+        hostElement.dir = isRtl(this.i18n.locale) ? 'rtl' : 'ltr';
+        document.body.appendChild(hostElement);
+        const shadowRoot = hostElement.attachShadow({ mode: 'closed' });
+        shadowRoot.appendChild(createStyles(config));
+        this.hostElement = hostElement;
+        this.shadowRoot = shadowRoot;
+
+        // Corner classes flip the launcher and modal; offsets come from CSS variables
+        const { corner } = normalizePosition(config.position);
+        const positionClasses = corner.split('-').map(side => `pos-${side}`);
+
+        // Lifts the bottom sheet above the on-screen keyboard; highlights follow on their own
+        const viewportHandler = () => {
+            const viewport = window.visualViewport;
+            const inset = viewport ? Math.max(0, window.innerHeight - viewport.height - viewport.offsetTop) : 0;
+            hostElement.style.setProperty('--tagtics-keyboard-inset', `${Math.round(inset)}px`);
+        };
+        if (window.visualViewport) this.listen(window.visualViewport, 'resize', viewportHandler);
+        this.listen(window, 'resize', viewportHandler);
+
+        const fabContainer = document.createElement('div');
+        fabContainer.className = 'tagtics-fab-container';
+        fabContainer.classList.add(...positionClasses);
+        if (config.hideLauncher) fabContainer.style.display = 'none';
+
+        // Page Feedback Button
+        const pageBtn = document.createElement('button');
+        pageBtn.className = 'tagtics-fab-item';
+        pageBtn.innerHTML = `
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+                <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+                <polyline points="14 2 14 8 20 8"></polyline>
+                <line x1="16" y1="13" x2="8" y2="13"></line>
+                <line x1="16" y1="17" x2="8" y2="17"></line>
+                <line x1="10" y1="9" x2="8" y2="9"></line>
+            </svg>
+            <span class="tagtics-fab-label"></span>
+        `;
+        pageBtn.querySelector('.tagtics-fab-label')!.textContent = this.i18n.t('pageFeedback');
+        pageBtn.setAttribute('aria-label', this.i18n.t('pageFeedback'));
+        pageBtn.onclick = (e) => {
+            e.stopPropagation();
+            fabContainer.classList.remove('open');
+            this.showModal(false); // Mode: Page feedback
+        };
+        fabContainer.appendChild(pageBtn);
+
+        // Pick Element Button
+        const pickBtn = document.createElement('button');
+        pickBtn.className = 'tagtics-fab-item';
+        pickBtn.innerHTML = `
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+                <path d="M3 3l7.07 16.97 2.51-7.39 7.39-2.51L3 3z"></path>
+                <path d="M13 13l6 6"></path>
+            </svg>
+            <span class="tagtics-fab-label"></span>
+        `;
+        pickBtn.querySelector('.tagtics-fab-label')!.textContent = this.i18n.t('pickElement');
+        pickBtn.setAttribute('aria-label', this.i18n.t('pickElement'));
+        pickBtn.onclick = (e) => {
+            e.stopPropagation();
+            if (isPayment && !config.allowSensitivePages) {
+                return;
+            }
+            fabContainer.classList.remove('open');
+            this.startPicking();
+        };
+        if (!config.pageFeedbackOnly) fabContainer.appendChild(pickBtn);
+
+        // Main Toggle Button
+        const mainBtn = document.createElement('button');
+        mainBtn.className = 'tagtics-fab-main';
+        mainBtn.setAttribute('aria-label', this.i18n.t('launcher'));
+        mainBtn.setAttribute('aria-expanded', 'false');
+
+        if (config.logoUrl) {
+            mainBtn.innerHTML = `<img src="${config.logoUrl}" style="width: 100%; height: 100%; border-radius: 50%; object-fit: cover;">`;
+        } else {
+            // Let's use a simpler "Code Search" icon to avoid complex composites that look bad.
+            // Replacing with a clean "Code" + "Search" overlay
+            // Premium "Code Inspection" Logo: < 🔍 />
+            // Carefully blocked out to ensure clean spacing and no overlapping mess.
+            mainBtn.innerHTML = `
+            <svg
+                width="40" height="40"
+                viewBox="-2 0 44 24"
+                fill="none"
+                stroke="white"
+                stroke-width="2.2"
+                stroke-linecap="round"
+                stroke-linejoin="round"
+                style="filter: drop-shadow(0 2px 3px rgba(0,0,0,0.2));"
+            >
+                <defs>
+                    <linearGradient id="grad2" x1="0%" y1="0%" x2="100%" y2="100%">
+                        <stop offset="0%" style="stop-color:white;stop-opacity:1" />
+                        <stop offset="100%" style="stop-color:#e0e7ff;stop-opacity:1" />
+                    </linearGradient>
+                </defs>
+                <g stroke="url(#grad2)">
+                    <!-- Left angle bracket "<" -->
+                    <polyline points="6 6 3 12 6 18" />
+
+                    <!-- Magnifying glass circle (larger and centered) -->
+                    <circle cx="15" cy="12" r="5.5" />
+
+                    <!-- Magnifying glass handle -->
+                    <line x1="19" y1="16" x2="22" y2="19" />
+
+                    <!-- Slash "/" -->
+                    <line x1="27" y1="6" x2="25" y2="18" opacity="0.6" />
+
+                    <!-- Right angle bracket ">" -->
+                    <polyline points="31 6 34 12 31 18" />
+                </g>
+            </svg>`;
+            mainBtn.style.display = 'flex';
+            mainBtn.style.alignItems = 'center';
+            mainBtn.style.justifyContent = 'center';
+        }
+
+        mainBtn.onclick = (e) => {
+            e.stopPropagation();
+            fabContainer.classList.toggle('open');
+            mainBtn.setAttribute('aria-expanded', String(fabContainer.classList.contains('open')));
+            if (this.isModalOpen()) this.closeModal();
+        };
+
+        if (config.testingMode) {
+            const badge = document.createElement('div');
+            badge.className = 'tagtics-testing-badge';
+            badge.innerText = this.i18n.t('testMode');
+            fabContainer.appendChild(badge);
+        }
+
+        fabContainer.appendChild(mainBtn);
+
+        // Escape Key Listener
+        this.listen(document, 'keydown', (e: Event) => {
+            if ((e as KeyboardEvent).key !== 'Escape') return;
+            if (this.isPicking) {
+                this.stopPicking(false); // Cancel picking, no modal
+            } else if (this.isModalOpen()) {
+                this.closeModal(); // Close modal, show FAB
+            }
+        });
+
+        if (!config.hideLauncher) shadowRoot.appendChild(fabContainer);
+
+        // Modal
+        const modal = document.createElement('div');
+        modal.className = 'tagtics-modal';
+        modal.classList.add(...positionClasses);
+        modal.setAttribute('role', 'dialog');
+        modal.setAttribute('aria-modal', 'true');
+        modal.setAttribute('aria-label', this.i18n.t('dialogLabel'));
+        modal.setAttribute('aria-describedby', 'tagtics-element-desc');
+        modal.addEventListener('keydown', e => this.trapFocus(e));
+        this.modal = modal;
+
+        const privacy = document.createElement('div');
+        privacy.className = 'privacy-notice';
+        privacy.innerText = config.privacyNotice || this.i18n.t('privacyNotice');
+        modal.appendChild(privacy);
+
+        const desc = document.createElement('div');
+        desc.className = 'element-desc';
+        desc.id = 'tagtics-element-desc';
+        modal.appendChild(desc);
+
+        const threadPanel = document.createElement('div');
+        threadPanel.className = 'tagtics-thread';
+        modal.appendChild(threadPanel);
+
+        if (hasFormFields(config.form)) {
+            this.formController = renderForm(config.form!, this.i18n.t);
+            modal.appendChild(this.formController.element);
+        }
+
+        const draftHint = document.createElement('div');
+        draftHint.className = 'tagtics-draft-hint';
+        draftHint.setAttribute('role', 'status');
+        const draftLabel = document.createElement('span');
+        draftLabel.textContent = this.i18n.t('draftRestored');
+        const discardBtn = document.createElement('button');
+        discardBtn.type = 'button';
+        discardBtn.textContent = this.i18n.t('discardDraft');
+        discardBtn.onclick = () => {
+            textarea.value = '';
+            textarea.dispatchEvent(new Event('input'));
+            this.formController?.reset();
+            this.persistDraft();
+            draftHint.classList.remove('visible');
+            textarea.focus();
+        };
+        draftHint.append(draftLabel, discardBtn);
+        modal.appendChild(draftHint);
+
+        const maxLength = config.maxLength || 300;
+        const textarea = document.createElement('textarea');
+        textarea.placeholder = this.i18n.t('placeholder');
+        textarea.setAttribute('aria-label', this.i18n.t('textareaLabel'));
+        textarea.maxLength = maxLength;
+        textarea.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                if (textarea.value.trim().length > 0) {
+                    this.submitFromModal(textarea.value);
+                }
+            }
+        });
+        modal.appendChild(textarea);
+
+        const charCounter = document.createElement('div');
+        charCounter.className = 'char-counter';
+        charCounter.textContent = `0 / ${maxLength}`;
+        textarea.addEventListener('input', () => {
+            const len = textarea.value.length;
+            charCounter.textContent = `${len} / ${maxLength}`;
+            charCounter.classList.toggle('near-limit', len > maxLength - 20);
+        });
+        modal.appendChild(charCounter);
+
+        // Chips are buttons, so clicks count as edits too
+        modal.addEventListener('input', () => this.persistDraft());
+        modal.addEventListener('change', () => this.persistDraft());
+        this.formController?.element.addEventListener('click', () => this.persistDraft());
+
+        const buttonContainer = document.createElement('div');
+        buttonContainer.style.display = 'flex';
+        buttonContainer.style.gap = '12px';
+
+        const repickBtn = document.createElement('button');
+        repickBtn.className = 'secondary';
+        repickBtn.innerText = this.i18n.t('repick');
+        repickBtn.style.display = 'none'; // Hidden for page feedback
+        repickBtn.onclick = () => {
+            this.closeModal();
+            this.startPicking();
+        };
+        buttonContainer.appendChild(repickBtn);
+
+        // Shown instead of Re-pick for a thread from the review overlay
+        const upvoteBtn = document.createElement('button');
+        upvoteBtn.className = 'secondary tagtics-upvote';
+        upvoteBtn.textContent = this.i18n.t('upvote');
+        upvoteBtn.style.display = 'none';
+        upvoteBtn.onclick = () => {
+            if (this.thread) this.sendFromModal('', undefined, { replyTo: this.thread.item.submissionId, upvote: true });
+        };
+        buttonContainer.appendChild(upvoteBtn);
+
+        const sendBtn = document.createElement('button');
+        sendBtn.className = 'primary';
+        sendBtn.innerText = this.i18n.t('send');
+        sendBtn.onclick = () => {
+            this.submitFromModal(textarea.value);
+        };
+        buttonContainer.appendChild(sendBtn);
+
+        modal.appendChild(buttonContainer);
+
+        shadowRoot.appendChild(modal);
+
+        const liveRegion = document.createElement('div');
+        liveRegion.className = 'tagtics-sr-only';
+        liveRegion.setAttribute('aria-live', 'polite');
+        liveRegion.setAttribute('role', 'status');
+        shadowRoot.appendChild(liveRegion);
+
+        this.loadPins();
+    }
+
+    /**
+     * Starts the element picker without the launcher and resolves with the clicked
+     * element. Rejects if picking is cancelled (Escape, Cancel) or unavailable here.
+     */
+    pick(): Promise<SelectedElementInfo> {
+        if (!this.hostElement || !this.shouldShowOnCurrentPath()) {
+            return Promise.reject(new Error('Tagtics: Picking is not available on this page'));
+        }
+        if (this.config.pageFeedbackOnly) {
+            return Promise.reject(new Error('Tagtics: Element picking is disabled on this page'));
+        }
+        if (this.pendingPick) {
+            this.pendingPick.reject(new Error('Tagtics: Picking was restarted'));
+        }
+        this.closeModal();
+        return new Promise((resolve, reject) => {
+            this.pendingPick = { resolve, reject };
+            this.startPicking();
+        });
+    }
+
+    /**
+     * Sends feedback through the same pipeline as the modal. Without an explicit
+     * element(s), the current selection (e.g. from pick()) is used, else page feedback.
+     * Rejects if `fields` don't satisfy the configured form.
+     */
+    submit(options: SubmitOptions): Promise<SubmitOutcome> {
+        if (this.destroyed) {
+            return Promise.reject(new Error('Tagtics: This client was destroyed'));
+        }
+        if (this.config.form || options.fields) {
+            const errors = validateFields(options.fields || {}, this.config.form, this.i18n.t);
+            if (errors.length) {
+                return Promise.reject(new Error(`Tagtics: Invalid feedback fields: ${errors.map(e => e.field).join(', ')}`));
+            }
+        }
+        let targets = this.selections;
+        if (options.elements) {
+            targets = options.elements.map((element): Selection => ({ type: 'element', element }));
+        } else if (options.element !== undefined) {
+            targets = options.element ? [{ type: 'element', element: options.element }] : [];
+        }
+        return this.sendFeedback(options.feedback, targets, options.fields);
+    }
+
+    // Drops the current selection and its highlight without sending anything
+    clearSelection(): void {
+        this.closeModal();
+    }
+
+    /**
+     * Forgets the identified user, context, recorded breadcrumbs, replay and drafts. Call on logout
+     * so the next person on this browser isn't reported as the previous one.
+     */
+    reset(): void {
+        clearIdentity();
+        clearBreadcrumbs();
+        clearReplay();
+        clearDrafts();
+        this.clearSelection();
+    }
+
+    // Removes the widget and every listener, timer and history hook this client added
+    destroy(): void {
+        if (this.destroyed) return;
+        if (this.isPicking || this.pendingPick) this.stopPicking(false);
+        this.destroyed = true;
+        this.disposers.forEach(dispose => dispose());
+        this.disposers = [];
+        this.unmount();
+        this.selections = [];
+        stopOutbox(this.id);
+        const wasOwner = getServiceOwner() === this;
+        liveClients.splice(liveClients.indexOf(this), 1);
+        if (wasOwner) {
+            stopBreadcrumbs();
+            stopReplay();
+            // The next newest client takes the recorders over with its own config
+            getServiceOwner()?.configurePage();
+        }
+    }
+}
@@ -0,0 +1,98 @@
+// --- Composed DOM Traversal ---
+// Helpers that see through open shadow roots and same-origin iframes.
+
+import type { ViewportRect } from './schema';
+
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+// instanceof checks fail for nodes from another frame's realm
+export function isHTMLElement(node: unknown): node is HTMLElement {
+    return !!node && (node as Node).nodeType === 1 && (node as Element).namespaceURI === XHTML_NS;
+}
+
+export function isShadowRoot(node: Node | null | undefined): node is ShadowRoot {
+    return !!node && node.nodeType === 11 && 'host' in node;
+}
+
+export function getFrameDocument(frame: Element): Document | null {
+    if (frame.tagName !== 'IFRAME' && frame.tagName !== 'FRAME') return null;
+    try {
+        return (frame as HTMLIFrameElement).contentDocument;
+    } catch (e) {
+        return null;
+    }
+}
+
+// Cross-origin frames either throw or expose no contentDocument
+export function isCrossOrigin(iframe: HTMLIFrameElement): boolean {
+    try {
+        return !iframe.contentDocument;
+    } catch (e) {
+        return true;
+    }
+}
+
+// The iframe hosting `doc`, unless `doc` is the page Tagtics runs in
+export function getHostFrame(doc: Document): Element | null {
+    if (doc === document) return null;
+    try {
+        return doc.defaultView?.frameElement || null;
+    } catch (e) {
+        return null;
+    }
+}
+
+// Parent across shadow and frame boundaries
+export function getComposedParent(el: Element): Element | null {
+    if (el.parentElement) return el.parentElement;
+    const root = el.getRootNode();
+    if (isShadowRoot(root)) return root.host;
+    return getHostFrame(el.ownerDocument);
+}
+
+// Children as rendered: open shadow root content first, then light DOM, or an iframe's body
+export function getComposedChildren(el: Element): Element[] {
+    const frameBody = getFrameDocument(el)?.body;
+    if (frameBody) return [frameBody];
+    const shadowChildren = el.shadowRoot ? Array.from(el.shadowRoot.children) : [];
+    return [...shadowChildren, ...Array.from(el.children)];
+}
+
+// The deepest element the event actually hit, even inside open shadow roots
+export function getEventTarget(e: Event): HTMLElement | null {
+    const path = typeof e.composedPath === 'function' ? e.composedPath() : [];
+    for (const node of path) {
+        if (isHTMLElement(node)) return node;
+    }
+    return isHTMLElement(e.target) ? e.target : null;
+}
+
+// Documents of all same-origin iframes, nested ones included
+export function getFrameDocuments(root: Document = document): Document[] {
+    const docs: Document[] = [];
+    root.querySelectorAll('iframe, frame').forEach(frame => {
+        const doc = getFrameDocument(frame);
+        if (doc) docs.push(doc, ...getFrameDocuments(doc));
+    });
+    return docs;
+}
+
+export type { ViewportRect };
+
+// Bounding rect translated into the top-level viewport
+export function getViewportRect(el: Element): ViewportRect {
+    const rect = el.getBoundingClientRect();
+    let top = rect.top;
+    let left = rect.left;
+
+    let frame = getHostFrame(el.ownerDocument);
+    while (frame) {
+        const frameRect = frame.getBoundingClientRect();
+        const view = frame.ownerDocument.defaultView || window;
+        const style = view.getComputedStyle(frame);
+        top += frameRect.top + frame.clientTop + (parseFloat(style.paddingTop) || 0);
+        left += frameRect.left + frame.clientLeft + (parseFloat(style.paddingLeft) || 0);
+        frame = getHostFrame(frame.ownerDocument);
+    }
+    return { top, left, width: rect.width, height: rect.height };
+}
@@ -0,0 +1,127 @@
+// --- Drafts ---
+// Unsent feedback is saved while it is typed, keyed by path and the selected
+// elements, so Escape, a route change or a reload doesn't throw it away.
+
+import type { FeedbackFields, LocatorBundle, ViewportRect } from './schema';
+
+export type DraftOptions = {
+    storage?: 'session' | 'local'; // 'local' also survives closing the tab (default: 'session')
+    maxAge?: number; // Minutes before an untouched draft is discarded (default: 1440, one day)
+};
+
+export type DraftSelection = { type: 'element'; locators: LocatorBundle } | { type: 'region'; rect: ViewportRect };
+
+export type Draft = {
+    path: string;
+    feedback: string;
+    fields?: FeedbackFields;
+    selections: DraftSelection[]; // Empty for page feedback
+    savedAt: number;
+};
+
+const STORAGE_KEY = 'tagtics:drafts';
+const DISMISSED_KEY = 'tagtics:dismissed-drafts';
+const DEFAULT_MAX_AGE_MINUTES = 24 * 60;
+
+function getStorage(options: DraftOptions): Storage | null {
+    try {
+        return options.storage === 'local' ? window.localStorage : window.sessionStorage;
+    } catch (e) {
+        return null; // Blocked by privacy settings
+    }
+}
+
+// Drafts older than maxAge are dropped on every read
+function readDrafts(options: DraftOptions): Record<string, Draft> {
+    const storage = getStorage(options);
+    if (!storage) return {};
+    let drafts: Record<string, Draft> = {};
+    try {
+        drafts = JSON.parse(storage.getItem(STORAGE_KEY) || '{}');
+    } catch (e) {
+        return {};
+    }
+    const oldest = Date.now() - (options.maxAge ?? DEFAULT_MAX_AGE_MINUTES) * 60000;
+    Object.keys(drafts).forEach(key => {
+        if (!(drafts[key]?.savedAt >= oldest)) delete drafts[key];
+    });
+    return drafts;
+}
+
+function writeDrafts(drafts: Record<string, Draft>, options: DraftOptions) {
+    const storage = getStorage(options);
+    if (!storage) return;
+    try {
+        if (Object.keys(drafts).length) storage.setItem(STORAGE_KEY, JSON.stringify(drafts));
+        else storage.removeItem(STORAGE_KEY);
+    } catch (e) {
+        console.warn('[Tagtics] Could not save feedback draft', e);
+    }
+}
+
+// One draft per path and target, e.g. "/pricing" + the xpaths of the picked elements
+export function getDraftKey(path: string, selections: DraftSelection[]): string {
+    const target = selections.map(selection => selection.type === 'element'
+        ? selection.locators.xpath
+        : `region(${[selection.rect.top, selection.rect.left, selection.rect.width, selection.rect.height].map(Math.round).join(',')})`);
+    return `${path} ${target.join(' ') || 'page'}`;
+}
+
+export function saveDraft(draft: Draft, options: DraftOptions = {}): void {
+    const drafts = readDrafts(options);
+    drafts[getDraftKey(draft.path, draft.selections)] = draft;
+    writeDrafts(drafts, options);
+}
+
+export function removeDraft(key: string, options: DraftOptions = {}): void {
+    const drafts = readDrafts(options);
+    delete drafts[key];
+    writeDrafts(drafts, options);
+}
+
+export function getDraft(key: string, options: DraftOptions = {}): Draft | null {
+    return readDrafts(options)[key] || null;
+}
+
+// The most recently saved draft for a path
+export function getLatestDraft(path: string, options: DraftOptions = {}): Draft | null {
+    return Object.values(readDrafts(options))
+        .filter(draft => draft.path === path)
+        .sort((a, b) => b.savedAt - a.savedAt)[0] || null;
+}
+
+function readDismissed(): string[] {
+    try {
+        return JSON.parse(window.sessionStorage.getItem(DISMISSED_KEY) || '[]');
+    } catch (e) {
+        return [];
+    }
+}
+
+// A draft the user closed isn't reopened automatically for the rest of the tab session,
+// until the user opens it again
+export function setDraftDismissed(key: string, dismissed: boolean): void {
+    const keys = readDismissed().filter(other => other !== key);
+    if (dismissed) keys.push(key);
+    try {
+        if (keys.length) window.sessionStorage.setItem(DISMISSED_KEY, JSON.stringify(keys));
+        else window.sessionStorage.removeItem(DISMISSED_KEY);
+    } catch (e) {
+        // Blocked storage: the draft may reopen, which only costs a click
+    }
+}
+
+export function isDraftDismissed(key: string): boolean {
+    return readDismissed().includes(key);
+}
+
+// Forgets drafts in both storages, e.g. on logout
+export function clearDrafts(): void {
+    writeDrafts({}, { storage: 'session' });
+    writeDrafts({}, { storage: 'local' });
+    try {
+        window.sessionStorage.removeItem(DISMISSED_KEY);
+    } catch (e) {
+        // Nothing was stored
+    }
+}
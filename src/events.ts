@@ -0,0 +1,65 @@
+// --- Lifecycle Events ---
+
+import type { FeedbackPayload } from './schema';
+
+export type { FeedbackPayload };
+
+export type TagticsEventMap = {
+    open: { mode: 'element' | 'page' };
+    close: void;
+    pick: void;
+    select: { element: HTMLElement; descriptor: string; xpath: string };
+    // Listeners may mutate the payload in place; returning false cancels the send.
+    beforeSend: FeedbackPayload;
+    sent: { payload: FeedbackPayload };
+    error: { payload?: FeedbackPayload; error?: unknown; status?: number; willRetry: boolean };
+};
+
+export type TagticsEventName = keyof TagticsEventMap;
+export type TagticsEventHandler<K extends TagticsEventName> = (data: TagticsEventMap[K]) => unknown;
+
+/**
+ * Listener registry for one client. Handlers that throw are logged and skipped
+ * so host-app bugs never break the widget; emit() returns false if any handler
+ * returned false.
+ */
+export function createEmitter() {
+    const listeners = new Map<TagticsEventName, Set<TagticsEventHandler<any>>>();
+
+    function on<K extends TagticsEventName>(event: K, handler: TagticsEventHandler<K>): () => void {
+        if (!listeners.has(event)) listeners.set(event, new Set());
+        listeners.get(event)!.add(handler);
+        return () => off(event, handler);
+    }
+
+    function off<K extends TagticsEventName>(event: K, handler: TagticsEventHandler<K>): void {
+        listeners.get(event)?.delete(handler);
+    }
+
+    function emit<K extends TagticsEventName>(event: K, ...args: TagticsEventMap[K] extends void ? [] : [TagticsEventMap[K]]): boolean {
+        let proceed = true;
+        const handlers = listeners.get(event);
+        if (!handlers) return proceed;
+
+        Array.from(handlers).forEach(handler => {
+            try {
+                if (handler(args[0] as TagticsEventMap[K]) === false) proceed = false;
+            } catch (e) {
+                console.error(`[Tagtics] "${event}" handler threw`, e);
+            }
+        });
+        return proceed;
+    }
+
+    function removeAllListeners(): void {
+        listeners.clear();
+    }
+
+    return { on, off, emit, removeAllListeners };
+}
+
+export type TagticsEmitter = ReturnType<typeof createEmitter>;
+
+// Backs the default export, so handlers registered before init() survive re-initialization
+export const defaultEmitter = createEmitter();
+export const { on, off, emit, removeAllListeners } = defaultEmitter;
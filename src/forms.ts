@@ -0,0 +1,307 @@
+// --- Structured Feedback Forms ---
+// Optional fields rendered above the textarea. Answers travel as payload.fields.
+
+import { t, Messages, Translate } from './i18n';
+import type { FeedbackFields } from './schema';
+
+export type ChoiceOption = string | { value: string; label?: string };
+
+type BaseField = {
+    name: string;
+    label: string;
+    required?: boolean;
+};
+
+export type FieldDefinition =
+    | BaseField & { type: 'text'; placeholder?: string; maxLength?: number; pattern?: RegExp }
+    | BaseField & { type: 'select'; options: ChoiceOption[] }
+    | BaseField & { type: 'checkbox' };
+
+export type FormConfig = {
+    categories?: boolean | ChoiceOption[]; // true: bug, idea, praise
+    severity?: boolean | ChoiceOption[]; // true: low, medium, high, critical
+    rating?: 'stars' | 'emoji';
+    email?: boolean | 'required';
+    required?: ('category' | 'severity' | 'rating')[];
+    fields?: FieldDefinition[];
+};
+
+export type { FeedbackFields };
+
+export type FieldError = { field: string; message: string };
+
+export type FormController = {
+    element: HTMLElement;
+    getValues(): FeedbackFields;
+    setValues(values: FeedbackFields): void; // Unknown fields and options are ignored
+    showErrors(errors: FieldError[]): void;
+    reset(): void;
+};
+
+type ResolvedOption = { value: string; label: string };
+
+const DEFAULT_CATEGORIES: [string, keyof Messages][] = [
+    ['bug', 'categoryBug'], ['idea', 'categoryIdea'], ['praise', 'categoryPraise'],
+];
+const DEFAULT_SEVERITIES: [string, keyof Messages][] = [
+    ['low', 'severityLow'], ['medium', 'severityMedium'], ['high', 'severityHigh'], ['critical', 'severityCritical'],
+];
+const RATING_EMOJI = ['😞', '🙁', '😐', '🙂', '😍'];
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function resolveOptions(option: boolean | ChoiceOption[] | undefined, defaults: [string, keyof Messages][], translate: Translate): ResolvedOption[] {
+    if (!option) return [];
+    if (option === true) return defaults.map(([value, key]) => ({ value, label: translate(key) }));
+    return option.map(o => typeof o === 'string' ? { value: o, label: o } : { value: o.value, label: o.label || o.value });
+}
+
+export function hasFormFields(form?: FormConfig): boolean {
+    return !!form && !!(form.categories || form.severity || form.rating || form.email || form.fields?.length);
+}
+
+/**
+ * Checks answers against the form definition. Returns one error per invalid
+ * field, keyed by 'category', 'severity', 'rating', 'email' or the custom name.
+ */
+export function validateFields(fields: FeedbackFields, form: FormConfig = {}, translate: Translate = t): FieldError[] {
+    const errors: FieldError[] = [];
+    const required = form.required || [];
+
+    const checkChoice = (name: 'category' | 'severity', options: ResolvedOption[]) => {
+        const value = fields[name];
+        if (value === undefined || value === '') {
+            if (required.includes(name)) errors.push({ field: name, message: translate('fieldRequired') });
+        } else if (!options.some(o => o.value === value)) {
+            errors.push({ field: name, message: translate('invalidValue') });
+        }
+    };
+    checkChoice('category', resolveOptions(form.categories, DEFAULT_CATEGORIES, translate));
+    checkChoice('severity', resolveOptions(form.severity, DEFAULT_SEVERITIES, translate));
+
+    if (fields.rating === undefined) {
+        if (required.includes('rating')) errors.push({ field: 'rating', message: translate('fieldRequired') });
+    } else if (!form.rating || !Number.isInteger(fields.rating) || fields.rating < 1 || fields.rating > 5) {
+        errors.push({ field: 'rating', message: translate('invalidValue') });
+    }
+
+    if (!fields.email) {
+        if (form.email === 'required') errors.push({ field: 'email', message: translate('fieldRequired') });
+    } else if (!EMAIL_REGEX.test(fields.email)) {
+        errors.push({ field: 'email', message: translate('invalidEmail') });
+    }
+
+    const custom = fields.custom || {};
+    (form.fields || []).forEach(field => {
+        const value = custom[field.name];
+        if (value === undefined || value === '' || value === false) {
+            if (field.required) errors.push({ field: field.name, message: translate('fieldRequired') });
+            return;
+        }
+        const valid = field.type === 'checkbox' ? typeof value === 'boolean'
+            : field.type === 'select' ? resolveOptions(field.options, [], translate).some(o => o.value === value)
+            : typeof value === 'string'
+                && (!field.maxLength || value.length <= field.maxLength)
+                && (!field.pattern || new RegExp(field.pattern.source, field.pattern.flags.replace('g', '')).test(value));
+        if (!valid) errors.push({ field: field.name, message: translate('invalidValue') });
+    });
+    return errors;
+}
+
+let fieldCounter = 0;
+
+function createFieldWrapper(name: string, label: string, inputId?: string): HTMLElement {
+    const wrapper = document.createElement('div');
+    wrapper.className = 'tagtics-field';
+    wrapper.dataset.field = name;
+    const labelEl = document.createElement(inputId ? 'label' : 'div');
+    labelEl.className = 'tagtics-field-label';
+    labelEl.textContent = label;
+    if (inputId) labelEl.setAttribute('for', inputId);
+    else labelEl.id = `tagtics-field-${++fieldCounter}`;
+    wrapper.appendChild(labelEl);
+    return wrapper;
+}
+
+// Single-choice chips; clicking the selected chip clears it. Cumulative chips
+// (star ratings) also mark every option before the selected one as filled.
+function createChips(name: string, label: string, options: { value: string; label: string; ariaLabel?: string }[], className = 'tagtics-chip', cumulative = false) {
+    const wrapper = createFieldWrapper(name, label);
+    const group = document.createElement('div');
+    group.className = 'tagtics-chips';
+    group.setAttribute('role', 'radiogroup');
+    group.setAttribute('aria-labelledby', wrapper.firstElementChild!.id);
+    let selected: string | undefined;
+
+    const buttons = options.map(option => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = className;
+        button.textContent = option.label;
+        button.setAttribute('role', 'radio');
+        button.setAttribute('aria-checked', 'false');
+        if (option.ariaLabel) button.setAttribute('aria-label', option.ariaLabel);
+        button.onclick = () => set(selected === option.value ? undefined : option.value);
+        group.appendChild(button);
+        return button;
+    });
+    const set = (value: string | undefined) => {
+        selected = value;
+        const index = options.findIndex(o => o.value === value);
+        buttons.forEach((button, i) => {
+            button.setAttribute('aria-checked', String(i === index));
+            if (cumulative) button.classList.toggle('filled', i <= index);
+        });
+    };
+    wrapper.appendChild(group);
+    return {
+        wrapper,
+        get: () => selected,
+        set: (value: string | undefined) => set(options.some(o => o.value === value) ? value : undefined),
+        reset: () => set(undefined),
+    };
+}
+
+export function renderForm(form: FormConfig, translate: Translate = t): FormController {
+    const element = document.createElement('div');
+    element.className = 'tagtics-form';
+    const getters: Record<string, () => unknown> = {};
+    const setters: Record<string, (value: unknown) => void> = {};
+    const resets: (() => void)[] = [];
+
+    const addChips = (name: string, label: string, options: ResolvedOption[]) => {
+        if (!options.length) return;
+        const chips = createChips(name, label, options);
+        element.appendChild(chips.wrapper);
+        getters[name] = chips.get;
+        setters[name] = value => chips.set(typeof value === 'string' ? value : undefined);
+        resets.push(chips.reset);
+    };
+    addChips('category', translate('category'), resolveOptions(form.categories, DEFAULT_CATEGORIES, translate));
+    addChips('severity', translate('severity'), resolveOptions(form.severity, DEFAULT_SEVERITIES, translate));
+
+    if (form.rating) {
+        const options = [1, 2, 3, 4, 5].map(value => ({
+            value: String(value),
+            label: form.rating === 'emoji' ? RATING_EMOJI[value - 1] : '★',
+            ariaLabel: translate('ratingValue', { value: String(value) }),
+        }));
+        const chips = createChips('rating', translate('rating'), options, `tagtics-rating ${form.rating}`, form.rating === 'stars');
+        element.appendChild(chips.wrapper);
+        getters.rating = () => chips.get() ? Number(chips.get()) : undefined;
+        setters.rating = value => chips.set(typeof value === 'number' ? String(value) : undefined);
+        resets.push(chips.reset);
+    }
+
+    const addInput = (name: string, label: string, input: HTMLInputElement | HTMLSelectElement) => {
+        input.id = `tagtics-field-${++fieldCounter}`;
+        const wrapper = createFieldWrapper(name, label, input.id);
+        if (input instanceof HTMLInputElement && input.type === 'checkbox') {
+            wrapper.classList.add('checkbox');
+            wrapper.insertBefore(input, wrapper.firstChild);
+        } else {
+            wrapper.appendChild(input);
+        }
+        element.appendChild(wrapper);
+        return input;
+    };
+
+    if (form.email) {
+        const input = document.createElement('input');
+        input.type = 'email';
+        input.autocomplete = 'email';
+        input.placeholder = translate('emailPlaceholder');
+        input.required = form.email === 'required';
+        addInput('email', translate('email'), input);
+        getters.email = () => input.value.trim() || undefined;
+        setters.email = value => { input.value = typeof value === 'string' ? value : ''; };
+        resets.push(() => { input.value = ''; });
+    }
+
+    const customGetters: Record<string, () => string | boolean | undefined> = {};
+    const customSetters: Record<string, (value: string | boolean | undefined) => void> = {};
+    (form.fields || []).forEach(field => {
+        let input: HTMLInputElement | HTMLSelectElement;
+        if (field.type === 'select') {
+            input = document.createElement('select');
+            const empty = document.createElement('option');
+            empty.value = '';
+            input.appendChild(empty);
+            resolveOptions(field.options, [], translate).forEach(option => {
+                const el = document.createElement('option');
+                el.value = option.value;
+                el.textContent = option.label;
+                input.appendChild(el);
+            });
+        } else {
+            input = document.createElement('input');
+            input.type = field.type;
+            if (field.type === 'text') {
+                if (field.placeholder) input.placeholder = field.placeholder;
+                if (field.maxLength) input.maxLength = field.maxLength;
+            }
+        }
+        input.required = !!field.required;
+        addInput(field.name, field.label, input);
+        customGetters[field.name] = () => input instanceof HTMLInputElement && input.type === 'checkbox'
+            ? input.checked
+            : input.value.trim() || undefined;
+        customSetters[field.name] = value => {
+            if (input instanceof HTMLInputElement && input.type === 'checkbox') input.checked = value === true;
+            else input.value = typeof value === 'string' ? value : '';
+        };
+        resets.push(() => customSetters[field.name](undefined));
+    });
+
+    const showErrors = (errors: FieldError[]) => {
+        element.querySelectorAll('.tagtics-field-error').forEach(el => el.remove());
+        element.querySelectorAll('[aria-invalid]').forEach(el => {
+            el.removeAttribute('aria-invalid');
+            el.removeAttribute('aria-describedby');
+        });
+        errors.forEach(error => {
+            const wrapper = Array.from(element.querySelectorAll<HTMLElement>('.tagtics-field'))
+                .find(el => el.dataset.field === error.field);
+            if (!wrapper) return;
+            const message = document.createElement('div');
+            message.className = 'tagtics-field-error';
+            message.id = `tagtics-field-${++fieldCounter}`;
+            message.textContent = error.message;
+            wrapper.appendChild(message);
+            const control = wrapper.querySelector('input, select, [role="radiogroup"]');
+            control?.setAttribute('aria-invalid', 'true');
+            control?.setAttribute('aria-describedby', message.id);
+        });
+        const invalid = element.querySelector<HTMLElement>('[aria-invalid]');
+        const target = invalid?.getAttribute('role') === 'radiogroup' ? invalid.querySelector('button') : invalid;
+        target?.focus();
+    };
+
+    return {
+        element,
+        getValues() {
+            const values: FeedbackFields = {};
+            (['category', 'severity', 'rating', 'email'] as const).forEach(name => {
+                const value = getters[name]?.();
+                if (value !== undefined) (values as Record<string, unknown>)[name] = value;
+            });
+            const names = Object.keys(customGetters);
+            if (names.length) {
+                values.custom = {};
+                names.forEach(name => {
+                    const value = customGetters[name]();
+                    if (value !== undefined) values.custom![name] = value;
+                });
+            }
+            return values;
+        },
+        setValues(values) {
+            (['category', 'severity', 'rating', 'email'] as const).forEach(name => setters[name]?.(values[name]));
+            Object.keys(customSetters).forEach(name => customSetters[name](values.custom?.[name]));
+        },
+        showErrors,
+        reset() {
+            resets.forEach(reset => reset());
+            showErrors([]);
+        },
+    };
+}
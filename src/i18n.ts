@@ -0,0 +1,398 @@
+// --- Localization ---
+// Every string the widget shows or announces comes from here.
+
+export type Messages = {
+    launcher: string; // aria-label of the main button
+    pageFeedback: string;
+    pickElement: string;
+    dialogLabel: string;
+    placeholder: string;
+    textareaLabel: string;
+    repick: string;
+    send: string;
+    privacyNotice: string;
+    embeddedNotSelectable: string;
+    pickingInstructions: string;
+    pickingFocus: string; // {element} is replaced with the element description
+    selectionCount: string; // {count} is replaced with the number of selections
+    region: string; // {width} and {height} are replaced with the region size
+    touchInstructions: string;
+    select: string;
+    add: string;
+    cancel: string;
+    sent: string;
+    queued: string;
+    failed: string;
+    testMode: string;
+    category: string;
+    categoryBug: string;
+    categoryIdea: string;
+    categoryPraise: string;
+    severity: string;
+    severityLow: string;
+    severityMedium: string;
+    severityHigh: string;
+    severityCritical: string;
+    rating: string;
+    ratingValue: string; // {value} is replaced with the rating
+    email: string;
+    emailPlaceholder: string;
+    fieldRequired: string;
+    invalidEmail: string;
+    invalidValue: string;
+    draftRestored: string;
+    discardDraft: string;
+    pinLabel: string; // {number} is replaced with the pin number
+    reply: string;
+    replyPlaceholder: string;
+    upvote: string;
+    votes: string; // {count} is replaced with the number of +1s
+};
+
+const en: Messages = {
+    launcher: 'Give feedback',
+    pageFeedback: 'Page Feedback',
+    pickElement: 'Pick Element',
+    dialogLabel: 'Send feedback',
+    placeholder: 'Enter feedback...',
+    textareaLabel: 'Feedback',
+    repick: 'Re-pick',
+    send: 'Send',
+    privacyNotice: "We capture only the selected element's structure and styles. We never read or send form values, passwords, card numbers, or other typed personal information.",
+    embeddedNotSelectable: 'Embedded content not selectable',
+    pickingInstructions: 'Picking mode. Use Tab or the arrow keys to move between elements, Enter to select, Escape to cancel. Hold Shift to select several elements, or drag to draw a region.',
+    pickingFocus: '{element}. Enter to select.',
+    selectionCount: '{count} selected',
+    region: 'Region {width} × {height}',
+    touchInstructions: 'Tap an element to highlight it, or long-press to select it right away.',
+    select: 'Select',
+    add: 'Add',
+    cancel: 'Cancel',
+    sent: 'Feedback sent successfully!',
+    queued: "Couldn't reach the server. Your feedback is saved and will be retried.",
+    failed: 'Failed to send feedback. Please try again.',
+    testMode: 'TEST MODE',
+    category: 'Category',
+    categoryBug: 'Bug',
+    categoryIdea: 'Idea',
+    categoryPraise: 'Praise',
+    severity: 'Severity',
+    severityLow: 'Low',
+    severityMedium: 'Medium',
+    severityHigh: 'High',
+    severityCritical: 'Critical',
+    rating: 'Rating',
+    ratingValue: '{value} of 5',
+    email: 'Email',
+    emailPlaceholder: 'you@example.com',
+    fieldRequired: 'This field is required',
+    invalidEmail: 'Enter a valid email address',
+    invalidValue: 'This value is not valid',
+    draftRestored: 'Draft restored',
+    discardDraft: 'Discard',
+    pinLabel: 'Feedback {number}',
+    reply: 'Reply',
+    replyPlaceholder: 'Add a reply...',
+    upvote: '+1',
+    votes: '{count} × +1',
+};
+
+const de: Messages = {
+    launcher: 'Feedback geben',
+    pageFeedback: 'Feedback zur Seite',
+    pickElement: 'Element auswählen',
+    dialogLabel: 'Feedback senden',
+    placeholder: 'Feedback eingeben...',
+    textareaLabel: 'Feedback',
+    repick: 'Neu auswählen',
+    send: 'Senden',
+    privacyNotice: 'Wir erfassen nur Struktur und Stile des ausgewählten Elements. Formularwerte, Passwörter, Kartennummern oder andere eingegebene persönliche Daten werden nie gelesen oder gesendet.',
+    embeddedNotSelectable: 'Eingebettete Inhalte können nicht ausgewählt werden',
+    pickingInstructions: 'Auswahlmodus. Mit Tab oder den Pfeiltasten zwischen Elementen wechseln, Enter zum Auswählen, Escape zum Abbrechen. Mit gedrückter Umschalttaste mehrere Elemente auswählen oder ziehen, um einen Bereich zu markieren.',
+    pickingFocus: '{element}. Enter zum Auswählen.',
+    selectionCount: '{count} ausgewählt',
+    region: 'Bereich {width} × {height}',
+    touchInstructions: 'Tippen Sie auf ein Element, um es hervorzuheben, oder halten Sie es gedrückt, um es sofort auszuwählen.',
+    select: 'Auswählen',
+    add: 'Hinzufügen',
+    cancel: 'Abbrechen',
+    sent: 'Feedback erfolgreich gesendet!',
+    queued: 'Server nicht erreichbar. Ihr Feedback wurde gespeichert und wird erneut gesendet.',
+    failed: 'Feedback konnte nicht gesendet werden. Bitte versuchen Sie es erneut.',
+    testMode: 'TESTMODUS',
+    category: 'Kategorie',
+    categoryBug: 'Fehler',
+    categoryIdea: 'Idee',
+    categoryPraise: 'Lob',
+    severity: 'Schweregrad',
+    severityLow: 'Niedrig',
+    severityMedium: 'Mittel',
+    severityHigh: 'Hoch',
+    severityCritical: 'Kritisch',
+    rating: 'Bewertung',
+    ratingValue: '{value} von 5',
+    email: 'E-Mail',
+    emailPlaceholder: 'sie@beispiel.de',
+    fieldRequired: 'Dieses Feld ist erforderlich',
+    invalidEmail: 'Bitte eine gültige E-Mail-Adresse eingeben',
+    invalidValue: 'Dieser Wert ist ungültig',
+    draftRestored: 'Entwurf wiederhergestellt',
+    discardDraft: 'Verwerfen',
+    pinLabel: 'Feedback {number}',
+    reply: 'Antworten',
+    replyPlaceholder: 'Antwort schreiben...',
+    upvote: '+1',
+    votes: '{count} × +1',
+};
+
+const fr: Messages = {
+    launcher: 'Donner votre avis',
+    pageFeedback: 'Avis sur la page',
+    pickElement: 'Choisir un élément',
+    dialogLabel: 'Envoyer un avis',
+    placeholder: 'Saisissez votre avis...',
+    textareaLabel: 'Avis',
+    repick: 'Choisir à nouveau',
+    send: 'Envoyer',
+    privacyNotice: "Nous capturons uniquement la structure et les styles de l'élément sélectionné. Nous ne lisons ni n'envoyons jamais les valeurs de formulaire, mots de passe, numéros de carte ou autres informations personnelles saisies.",
+    embeddedNotSelectable: 'Contenu intégré non sélectionnable',
+    pickingInstructions: "Mode sélection. Utilisez Tab ou les flèches pour passer d'un élément à l'autre, Entrée pour sélectionner, Échap pour annuler. Maintenez Maj pour sélectionner plusieurs éléments, ou faites glisser pour tracer une zone.",
+    pickingFocus: '{element}. Entrée pour sélectionner.',
+    selectionCount: '{count} sélectionné(s)',
+    region: 'Zone {width} × {height}',
+    touchInstructions: 'Touchez un élément pour le mettre en évidence, ou maintenez-le appuyé pour le sélectionner directement.',
+    select: 'Sélectionner',
+    add: 'Ajouter',
+    cancel: 'Annuler',
+    sent: 'Avis envoyé avec succès !',
+    queued: 'Serveur injoignable. Votre avis est enregistré et sera renvoyé.',
+    failed: "Échec de l'envoi de l'avis. Veuillez réessayer.",
+    testMode: 'MODE TEST',
+    category: 'Catégorie',
+    categoryBug: 'Bug',
+    categoryIdea: 'Idée',
+    categoryPraise: 'Compliment',
+    severity: 'Gravité',
+    severityLow: 'Faible',
+    severityMedium: 'Moyenne',
+    severityHigh: 'Élevée',
+    severityCritical: 'Critique',
+    rating: 'Note',
+    ratingValue: '{value} sur 5',
+    email: 'E-mail',
+    emailPlaceholder: 'vous@exemple.fr',
+    fieldRequired: 'Ce champ est obligatoire',
+    invalidEmail: 'Saisissez une adresse e-mail valide',
+    invalidValue: "Cette valeur n'est pas valide",
+    draftRestored: 'Brouillon restauré',
+    discardDraft: 'Supprimer',
+    pinLabel: 'Avis {number}',
+    reply: 'Répondre',
+    replyPlaceholder: 'Ajouter une réponse...',
+    upvote: '+1',
+    votes: '{count} × +1',
+};
+
+const es: Messages = {
+    launcher: 'Enviar comentarios',
+    pageFeedback: 'Comentarios sobre la página',
+    pickElement: 'Elegir elemento',
+    dialogLabel: 'Enviar comentarios',
+    placeholder: 'Escribe tus comentarios...',
+    textareaLabel: 'Comentarios',
+    repick: 'Volver a elegir',
+    send: 'Enviar',
+    privacyNotice: 'Solo capturamos la estructura y los estilos del elemento seleccionado. Nunca leemos ni enviamos valores de formularios, contraseñas, números de tarjeta ni otros datos personales escritos.',
+    embeddedNotSelectable: 'El contenido incrustado no se puede seleccionar',
+    pickingInstructions: 'Modo de selección. Usa Tab o las flechas para moverte entre elementos, Intro para seleccionar y Escape para cancelar. Mantén Mayús para seleccionar varios elementos o arrastra para dibujar una región.',
+    pickingFocus: '{element}. Intro para seleccionar.',
+    selectionCount: '{count} seleccionados',
+    region: 'Región {width} × {height}',
+    touchInstructions: 'Toca un elemento para resaltarlo o mantenlo pulsado para seleccionarlo directamente.',
+    select: 'Seleccionar',
+    add: 'Añadir',
+    cancel: 'Cancelar',
+    sent: '¡Comentarios enviados correctamente!',
+    queued: 'No se pudo contactar con el servidor. Tus comentarios se han guardado y se reintentará el envío.',
+    failed: 'No se pudieron enviar los comentarios. Inténtalo de nuevo.',
+    testMode: 'MODO DE PRUEBA',
+    category: 'Categoría',
+    categoryBug: 'Error',
+    categoryIdea: 'Idea',
+    categoryPraise: 'Elogio',
+    severity: 'Gravedad',
+    severityLow: 'Baja',
+    severityMedium: 'Media',
+    severityHigh: 'Alta',
+    severityCritical: 'Crítica',
+    rating: 'Valoración',
+    ratingValue: '{value} de 5',
+    email: 'Correo electrónico',
+    emailPlaceholder: 'tu@ejemplo.com',
+    fieldRequired: 'Este campo es obligatorio',
+    invalidEmail: 'Introduce un correo electrónico válido',
+    invalidValue: 'Este valor no es válido',
+    draftRestored: 'Borrador restaurado',
+    discardDraft: 'Descartar',
+    pinLabel: 'Comentario {number}',
+    reply: 'Responder',
+    replyPlaceholder: 'Añade una respuesta...',
+    upvote: '+1',
+    votes: '{count} × +1',
+};
+
+const ar: Messages = {
+    launcher: 'إرسال ملاحظات',
+    pageFeedback: 'ملاحظات حول الصفحة',
+    pickElement: 'اختيار عنصر',
+    dialogLabel: 'إرسال ملاحظات',
+    placeholder: 'اكتب ملاحظاتك...',
+    textareaLabel: 'الملاحظات',
+    repick: 'إعادة الاختيار',
+    send: 'إرسال',
+    privacyNotice: 'نلتقط بنية العنصر المحدد وأنماطه فقط. لا نقرأ أو نرسل أبدًا قيم النماذج أو كلمات المرور أو أرقام البطاقات أو أي معلومات شخصية مكتوبة.',
+    embeddedNotSelectable: 'لا يمكن اختيار المحتوى المضمّن',
+    pickingInstructions: 'وضع الاختيار. استخدم Tab أو مفاتيح الأسهم للتنقل بين العناصر، وEnter للاختيار، وEscape للإلغاء. اضغط Shift لاختيار عدة عناصر، أو اسحب لرسم منطقة.',
+    pickingFocus: '{element}. اضغط Enter للاختيار.',
+    selectionCount: 'تم اختيار {count}',
+    region: 'منطقة {width} × {height}',
+    touchInstructions: 'اضغط على عنصر لتمييزه، أو اضغط مطولًا لاختياره مباشرة.',
+    select: 'اختيار',
+    add: 'إضافة',
+    cancel: 'إلغاء',
+    sent: 'تم إرسال الملاحظات بنجاح!',
+    queued: 'تعذّر الوصول إلى الخادم. تم حفظ ملاحظاتك وستتم إعادة المحاولة.',
+    failed: 'تعذّر إرسال الملاحظات. يرجى المحاولة مرة أخرى.',
+    testMode: 'وضع الاختبار',
+    category: 'الفئة',
+    categoryBug: 'خطأ',
+    categoryIdea: 'فكرة',
+    categoryPraise: 'إشادة',
+    severity: 'الخطورة',
+    severityLow: 'منخفضة',
+    severityMedium: 'متوسطة',
+    severityHigh: 'عالية',
+    severityCritical: 'حرجة',
+    rating: 'التقييم',
+    ratingValue: '{value} من 5',
+    email: 'البريد الإلكتروني',
+    emailPlaceholder: 'you@example.com',
+    fieldRequired: 'هذا الحقل مطلوب',
+    invalidEmail: 'أدخل بريدًا إلكترونيًا صالحًا',
+    invalidValue: 'هذه القيمة غير صالحة',
+    draftRestored: 'تمت استعادة المسودة',
+    discardDraft: 'تجاهل',
+    pinLabel: 'ملاحظة {number}',
+    reply: 'رد',
+    replyPlaceholder: 'أضف ردًا...',
+    upvote: '+1',
+    votes: '{count} × +1',
+};
+
+const he: Messages = {
+    launcher: 'שליחת משוב',
+    pageFeedback: 'משוב על הדף',
+    pickElement: 'בחירת רכיב',
+    dialogLabel: 'שליחת משוב',
+    placeholder: 'כתבו משוב...',
+    textareaLabel: 'משוב',
+    repick: 'בחירה מחדש',
+    send: 'שליחה',
+    privacyNotice: 'אנחנו שומרים רק את המבנה והסגנון של הרכיב שנבחר. איננו קוראים או שולחים ערכי טפסים, סיסמאות, מספרי כרטיסים או מידע אישי אחר שהוקלד.',
+    embeddedNotSelectable: 'לא ניתן לבחור תוכן מוטמע',
+    pickingInstructions: 'מצב בחירה. השתמשו ב-Tab או בחיצים כדי לעבור בין רכיבים, Enter לבחירה, Escape לביטול. החזיקו Shift כדי לבחור כמה רכיבים, או גררו כדי לסמן אזור.',
+    pickingFocus: '{element}. Enter לבחירה.',
+    selectionCount: '{count} נבחרו',
+    region: 'אזור {width} × {height}',
+    touchInstructions: 'הקישו על רכיב כדי להדגיש אותו, או לחצו עליו לחיצה ארוכה כדי לבחור אותו מיד.',
+    select: 'בחירה',
+    add: 'הוספה',
+    cancel: 'ביטול',
+    sent: 'המשוב נשלח בהצלחה!',
+    queued: 'לא ניתן להתחבר לשרת. המשוב נשמר וישלח שוב.',
+    failed: 'שליחת המשוב נכשלה. נסו שוב.',
+    testMode: 'מצב בדיקה',
+    category: 'קטגוריה',
+    categoryBug: 'באג',
+    categoryIdea: 'רעיון',
+    categoryPraise: 'מחמאה',
+    severity: 'חומרה',
+    severityLow: 'נמוכה',
+    severityMedium: 'בינונית',
+    severityHigh: 'גבוהה',
+    severityCritical: 'קריטית',
+    rating: 'דירוג',
+    ratingValue: '{value} מתוך 5',
+    email: 'אימייל',
+    emailPlaceholder: 'you@example.com',
+    fieldRequired: 'שדה חובה',
+    invalidEmail: 'יש להזין כתובת אימייל תקינה',
+    invalidValue: 'הערך אינו תקין',
+    draftRestored: 'הטיוטה שוחזרה',
+    discardDraft: 'מחיקה',
+    pinLabel: 'משוב {number}',
+    reply: 'השב',
+    replyPlaceholder: 'הוסף תגובה...',
+    upvote: '+1',
+    votes: '{count} × +1',
+};
+
+export const LOCALES: Record<string, Messages> = { en, de, fr, es, ar, he };
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+export type Translate = (key: keyof Messages, params?: Record<string, string>) => string;
+
+// A resolved locale and its strings. Each client keeps its own, so two widgets can differ
+export type Localization = { locale: string; t: Translate };
+
+function format(template: string, params: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? params[name] : match);
+}
+
+function baseLanguage(tag: string): string {
+    return tag.toLowerCase().split(/[-_]/)[0];
+}
+
+function matchLocale(tag: string): string | null {
+    const exact = Object.keys(LOCALES).find(name => name.toLowerCase() === tag.toLowerCase());
+    if (exact) return exact;
+    return LOCALES[baseLanguage(tag)] ? baseLanguage(tag) : null;
+}
+
+// First supported of: the requested locale, navigator.language, <html lang>; falls back to 'en'
+export function resolveLocale(requested?: string): string {
+    const candidates = [requested, navigator.language, document.documentElement.lang];
+    for (const tag of candidates) {
+        const match = tag && matchLocale(tag);
+        if (match) return match;
+    }
+    return 'en';
+}
+
+export function createLocalization(requested?: string, overrides: Partial<Messages> = {}): Localization {
+    // A locale without a bundle still counts when the caller supplies its strings
+    const custom = !!requested && Object.keys(overrides).length > 0 && !matchLocale(requested);
+    const locale = custom ? requested! : resolveLocale(requested);
+    const messages: Messages = { ...en, ...LOCALES[locale], ...overrides };
+    return { locale, t: (key, params = {}) => format(messages[key], params) };
+}
+
+// Page-wide default for callers without a Localization of their own
+let active: Localization = { locale: 'en', t: (key, params = {}) => format(en[key], params) };
+
+export function configureLocale(requested?: string, overrides: Partial<Messages> = {}): void {
+    active = createLocalization(requested, overrides);
+}
+
+export function getLocale(): string {
+    return active.locale;
+}
+
+export function isRtl(tag: string = active.locale): boolean {
+    return RTL_LANGUAGES.includes(baseLanguage(tag));
+}
+
+export function t(key: keyof Messages, params: Record<string, string> = {}): string {
+    return active.t(key, params);
+}
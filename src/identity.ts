@@ -0,0 +1,61 @@
+// --- User Identity & Context ---
+// Kept in sessionStorage so a reload keeps the user, while a new tab or
+// browser session starts anonymous.
+
+import type { TagticsUser } from './schema';
+
+export type { TagticsUser };
+
+const SESSION_STORAGE_KEY = 'tagtics:identity';
+
+type IdentityState = { user: TagticsUser | null; context: Record<string, unknown> };
+
+function read(): IdentityState {
+    try {
+        const stored = JSON.parse(sessionStorage.getItem(SESSION_STORAGE_KEY) || 'null');
+        if (stored && typeof stored === 'object') return { user: stored.user || null, context: stored.context || {} };
+    } catch (e) {
+        // Unavailable or corrupt storage behaves like a fresh session
+    }
+    return { user: null, context: {} };
+}
+
+function write(state: IdentityState) {
+    try {
+        sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(state));
+    } catch (e) {
+        console.warn('[Tagtics] Could not persist user identity', e);
+    }
+}
+
+export function identify(user: TagticsUser): void {
+    if (!user || typeof user.id !== 'string' || !user.id) {
+        console.warn('[Tagtics] identify() needs a user with a non-empty string id');
+        return;
+    }
+    write({ ...read(), user: { ...user } });
+}
+
+// Passing undefined removes the key
+export function setContext(key: string, value: unknown): void {
+    const state = read();
+    if (value === undefined) delete state.context[key];
+    else state.context[key] = value;
+    write(state);
+}
+
+export function getUser(): TagticsUser | null {
+    return read().user;
+}
+
+export function getContext(): Record<string, unknown> {
+    return read().context;
+}
+
+export function clearIdentity(): void {
+    try {
+        sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    } catch (e) {
+        // Nothing stored
+    }
+}
@@ -0,0 +1,315 @@
+import { getFrameDocument, getHostFrame, isShadowRoot } from './dom';
+import type { LocatorBundle } from './schema';
+
+// --- Element Locators ---
+// Several independent ways to find the same element again, so feedback can be
+// traced back after the DOM changes. Resolution tries the most stable first.
+
+export type { LocatorBundle };
+
+export type LocatorStrategy = 'testId' | 'css' | 'role' | 'text' | 'xpath';
+
+export type LocateResult = { element: Element; strategy: LocatorStrategy };
+
+export const LOCATOR_STRATEGIES: LocatorStrategy[] = ['testId', 'css', 'role', 'text', 'xpath'];
+
+const TEST_ID_ATTRS = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+const MAX_TEXT_LENGTH = 80;
+// Hashed class names from CSS-in-JS and CSS modules change between builds
+const GENERATED_CLASS_REGEX = /^(css|sc|jsx|emotion|svelte)-|[a-z]+_[a-zA-Z0-9]{5,}$|\d{3,}/;
+
+
+// --- XPath ---
+// Paths into open shadow roots and same-origin iframes join per-tree XPaths
+// with a boundary step, e.g. `//*[@id="app"]/my-card[1]/#shadow-root/div[1]/button[2]`
+// or `/html/body/iframe[1]/#document/html/body/main[1]`.
+
+const SHADOW_STEP = '/#shadow-root';
+const FRAME_STEP = '/#document';
+const BOUNDARY_REGEX = /\/#(shadow-root|document)(?=\/|$)/;
+
+// XPath within the element's own document or shadow tree
+function getTreeXPath(element: Element): string {
+    if (element.id) {
+        return `//*[@id="${element.id}"]`;
+    }
+    if (element === element.ownerDocument.body) {
+        return '/html/body';
+    }
+    const parent = element.parentNode;
+    if (!parent || (parent.nodeType !== Node.ELEMENT_NODE && !isShadowRoot(parent))) {
+        // Fallback for detached or root
+        return element.tagName.toLowerCase();
+    }
+
+    let ix = 0;
+    const siblings = parent.childNodes;
+    for (let i = 0; i < siblings.length; i++) {
+        const sibling = siblings[i];
+        if (sibling === element) {
+            const prefix = isShadowRoot(parent) ? '' : getTreeXPath(parent as Element);
+            return prefix + '/' + element.tagName.toLowerCase() + '[' + (ix + 1) + ']';
+        }
+        if (sibling.nodeType === 1 && (sibling as Element).tagName === element.tagName) {
+            ix++;
+        }
+    }
+    return '';
+}
+
+// Path to the shadow root or frame document containing the element ('' for the page itself)
+export function getScopePath(element: Element): string {
+    const root = element.getRootNode();
+    if (isShadowRoot(root)) return getXPath(root.host) + SHADOW_STEP;
+    const frame = getHostFrame(element.ownerDocument);
+    if (frame) return getXPath(frame) + FRAME_STEP;
+    return '';
+}
+
+export function getXPath(element: Element): string {
+    return getScopePath(element) + getTreeXPath(element);
+}
+
+// Shadow roots can't be queried with document.evaluate, so walk the id/positional steps getTreeXPath emits
+function walkShadowPath(root: ShadowRoot, path: string): Element | null {
+    let current: ParentNode | null = root;
+    let rest = path;
+    const idStep = rest.match(/^\/\/\*\[@id="([^"]*)"\]/);
+    if (idStep) {
+        current = root.getElementById(idStep[1]);
+        rest = rest.slice(idStep[0].length);
+    }
+    for (const step of rest.split('/').filter(Boolean)) {
+        const match = step.match(/^([\w-]+)\[(\d+)\]$/);
+        if (!match || !current) return null;
+        const sameTag = Array.from(current.children).filter(c => c.tagName.toLowerCase() === match[1].toLowerCase());
+        current = sameTag[Number(match[2]) - 1] || null;
+    }
+    return current === root ? null : current as Element | null;
+}
+
+function evaluateInTree(root: Document | ShadowRoot, path: string): Element | null {
+    if (isShadowRoot(root)) return walkShadowPath(root, path);
+    const result = root.evaluate(path, root, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+    return result.singleNodeValue as Element | null;
+}
+
+/**
+ * Resolves every boundary step of a composite path. Returns the innermost
+ * document or shadow root and the path left to evaluate inside it.
+ */
+function resolveBoundaries(path: string, doc: Document): { root: Document | ShadowRoot; local: string } | null {
+    const parts = path.split(BOUNDARY_REGEX);
+    let root: Document | ShadowRoot = doc;
+    for (let i = 0; i + 1 < parts.length; i += 2) {
+        const host = evaluateInTree(root, parts[i]);
+        if (!host) return null;
+        const next: Document | ShadowRoot | null = parts[i + 1] === 'shadow-root' ? host.shadowRoot : getFrameDocument(host);
+        if (!next) return null;
+        root = next;
+    }
+    return { root, local: parts[parts.length - 1] };
+}
+
+export function evaluateXPath(path: string, doc: Document = document): Element | null {
+    try {
+        const resolved = resolveBoundaries(path, doc);
+        return resolved && resolved.local ? evaluateInTree(resolved.root, resolved.local) : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+// The shadow root or frame document a scope path (from getScopePath) points to
+export function resolveScope(scope: string, doc: Document = document): Document | ShadowRoot | null {
+    if (!scope) return doc;
+    try {
+        const resolved = resolveBoundaries(scope, doc);
+        return resolved && !resolved.local ? resolved.root : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+
+// --- CSS Selector ---
+
+export function cssEscape(value: string): string {
+    if (typeof CSS !== 'undefined' && typeof CSS.escape === 'function') return CSS.escape(value);
+    return value.replace(/^(\d)/, '\\3$1 ').replace(/([^a-zA-Z0-9_\u0080-\uFFFF-])/g, '\\$1');
+}
+
+function isUnique(selector: string, root: ParentNode): boolean {
+    try {
+        return root.querySelectorAll(selector).length === 1;
+    } catch (e) {
+        return false;
+    }
+}
+
+function selectorStep(el: Element): string {
+    let step = el.tagName.toLowerCase();
+    const classes = Array.from(el.classList).filter(c => !GENERATED_CLASS_REGEX.test(c)).slice(0, 2);
+    classes.forEach(c => { step += `.${cssEscape(c)}`; });
+
+    const parent = el.parentElement;
+    if (parent) {
+        const sameTag = Array.from(parent.children).filter(c => c.tagName === el.tagName);
+        if (sameTag.length > 1) step += `:nth-of-type(${sameTag.indexOf(el) + 1})`;
+    }
+    return step;
+}
+
+// Shortest selector built bottom-up that matches only this element
+export function getUniqueSelector(el: Element): string {
+    const root = el.getRootNode() as Document | ShadowRoot;
+    if (el.id && isUnique(`#${cssEscape(el.id)}`, root)) return `#${cssEscape(el.id)}`;
+
+    const steps: string[] = [];
+    let current: Element | null = el;
+    while (current && current !== el.ownerDocument.documentElement) {
+        if (current !== el && current.id && isUnique(`#${cssEscape(current.id)}`, root)) {
+            steps.unshift(`#${cssEscape(current.id)}`);
+        } else {
+            steps.unshift(selectorStep(current));
+        }
+        const selector = steps.join(' > ');
+        if (isUnique(selector, root)) return selector;
+        if (current.id && current !== el) break;
+        current = current.parentElement;
+    }
+    return steps.join(' > ');
+}
+
+
+// --- Role & Accessible Name ---
+
+const IMPLICIT_ROLES: Record<string, string> = {
+    button: 'button', nav: 'navigation', main: 'main', header: 'banner', footer: 'contentinfo',
+    aside: 'complementary', form: 'form', ul: 'list', ol: 'list', li: 'listitem', table: 'table',
+    select: 'combobox', textarea: 'textbox', img: 'img', dialog: 'dialog',
+    h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+};
+
+const INPUT_ROLES: Record<string, string> = {
+    button: 'button', submit: 'button', reset: 'button', checkbox: 'checkbox', radio: 'radio',
+    range: 'slider', search: 'searchbox', text: 'textbox', email: 'textbox', tel: 'textbox', url: 'textbox',
+};
+
+export function getRole(el: Element): string {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit.split(' ')[0];
+
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'a') return el.hasAttribute('href') ? 'link' : '';
+    if (tag === 'input') return INPUT_ROLES[(el.getAttribute('type') || 'text').toLowerCase()] || '';
+    return IMPLICIT_ROLES[tag] || '';
+}
+
+const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+export function getAccessibleName(el: Element): string {
+    const root = el.getRootNode() as Document | ShadowRoot;
+    const label = el.getAttribute('aria-label');
+    if (label) return normalize(label);
+
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+        const text = labelledBy.split(/\s+/)
+            .map(id => root.getElementById(id)?.textContent)
+            .join(' ');
+        if (normalize(text)) return normalize(text);
+    }
+
+    if (el.id) {
+        const forLabel = root.querySelector(`label[for="${cssEscape(el.id)}"]`);
+        if (forLabel) return normalize(forLabel.textContent);
+    }
+
+    const alt = el.getAttribute('alt') || el.getAttribute('title');
+    if (alt) return normalize(alt);
+
+    // Form fields are never named from their (user-typed) content
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'input' || tag === 'textarea' || tag === 'select') return '';
+    return normalize(el.textContent).substring(0, MAX_TEXT_LENGTH);
+}
+
+
+// --- Bundle ---
+
+export function getLocators(el: Element): LocatorBundle {
+    const bundle: LocatorBundle = { xpath: getXPath(el) };
+    const scope = getScopePath(el);
+    if (scope) bundle.scope = scope;
+
+    for (const attr of TEST_ID_ATTRS) {
+        const value = el.getAttribute(attr);
+        if (value) {
+            bundle.testId = { attr, value };
+            break;
+        }
+    }
+
+    bundle.css = getUniqueSelector(el);
+
+    const role = getRole(el);
+    const name = role ? getAccessibleName(el) : '';
+    if (role && name) bundle.role = { role, name };
+
+    const tag = el.tagName.toLowerCase();
+    const text = tag === 'textarea' ? '' : normalize(el.textContent);
+    if (text && text.length <= MAX_TEXT_LENGTH) {
+        bundle.text = { tag, text };
+    }
+
+    return bundle;
+}
+
+function single(matches: Element[]): Element | null {
+    return matches.length === 1 ? matches[0] : null;
+}
+
+function tryStrategy(strategy: LocatorStrategy, bundle: LocatorBundle, root: Document | ShadowRoot, doc: Document): Element | null {
+    try {
+        switch (strategy) {
+            case 'testId':
+                if (!bundle.testId) return null;
+                return single(Array.from(root.querySelectorAll(`[${bundle.testId.attr}="${cssEscape(bundle.testId.value)}"]`)));
+            case 'css':
+                return bundle.css ? single(Array.from(root.querySelectorAll(bundle.css))) : null;
+            case 'role': {
+                const target = bundle.role;
+                if (!target) return null;
+                return single(Array.from(root.querySelectorAll('*'))
+                    .filter(el => getRole(el) === target.role && getAccessibleName(el) === target.name));
+            }
+            case 'text': {
+                const target = bundle.text;
+                if (!target) return null;
+                return single(Array.from(root.querySelectorAll(target.tag))
+                    .filter(el => normalize(el.textContent) === target.text));
+            }
+            case 'xpath':
+                return evaluateXPath(bundle.xpath, doc);
+        }
+    } catch (e) {
+        // Invalid selector or expression; fall through to the next strategy
+    }
+    return null;
+}
+
+/**
+ * Re-finds an element from a locator bundle. Strategies are tried in
+ * LOCATOR_STRATEGIES order; ambiguous matches are skipped. Returns which
+ * strategy matched, or null if none did.
+ */
+export function locateElement(bundle: LocatorBundle, doc: Document = document): LocateResult | null {
+    const root = resolveScope(bundle.scope || '', doc);
+    for (const strategy of LOCATOR_STRATEGIES) {
+        if (!root && strategy !== 'xpath') continue;
+        const element = tryStrategy(strategy, bundle, root || doc, doc);
+        if (element) return { element, strategy };
+    }
+    return null;
+}
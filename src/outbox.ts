@@ -0,0 +1,316 @@
+// --- Offline Outbox ---
+// Every submission is persisted before the first delivery attempt so a failed
+// request, a closed tab or a dropped connection never loses the user's text.
+
+export type OutboxEntry = {
+    id: string;
+    endpoint: string;
+    body: string;
+    attempts: number;
+    createdAt: number;
+    nextAttemptAt: number;
+    owner?: string; // The client that queued it, which delivers it through its own transport
+    apiKey?: string;
+};
+
+export type DeliveryResult = { ok: boolean; status?: number };
+export type OutboxSender = (entry: OutboxEntry) => Promise<DeliveryResult>;
+export type DeliveryOutcome = 'sent' | 'retry' | 'dropped';
+export type OutboxOptions = { beacon?: boolean; apiKey?: string; owner?: string };
+
+type Registration = { send: OutboxSender; beacon: boolean; apiKey?: string };
+
+type OutboxStore = {
+    getAll(): Promise<OutboxEntry[]>;
+    put(entry: OutboxEntry): Promise<void>;
+    remove(id: string): Promise<void>;
+};
+
+const DB_NAME = 'tagtics';
+const STORE_NAME = 'outbox';
+const LOCAL_STORAGE_KEY = 'tagtics:outbox';
+
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+const MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_OWNER = 'default';
+
+let store: OutboxStore | null = null;
+const senders = new Map<string, Registration>();
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing: Promise<void> | null = null;
+let listeners: { online: () => void; visibility: () => void; pagehide: () => void } | null = null;
+// In-memory mirror of the store; pagehide cannot wait for async reads.
+const pending = new Map<string, OutboxEntry>();
+const inFlight = new Set<string>();
+
+
+// --- Storage Backends ---
+
+function createIndexedDBStore(): OutboxStore | null {
+    if (typeof indexedDB === 'undefined') return null;
+
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const openDB = () => {
+        if (!dbPromise) {
+            dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return dbPromise;
+    };
+
+    const run = <T>(mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest): Promise<T> =>
+        openDB().then(db => new Promise<T>((resolve, reject) => {
+            const request = op(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }));
+
+    return {
+        getAll: () => run<OutboxEntry[]>('readonly', s => s.getAll()),
+        put: entry => run<void>('readwrite', s => s.put(entry)).then(() => undefined),
+        remove: id => run<void>('readwrite', s => s.delete(id)).then(() => undefined),
+    };
+}
+
+function createLocalStorageStore(): OutboxStore {
+    const read = (): OutboxEntry[] => {
+        try {
+            return JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) || '[]');
+        } catch (e) {
+            return [];
+        }
+    };
+    const write = (entries: OutboxEntry[]) => {
+        try {
+            localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(entries));
+        } catch (e) {
+            console.warn('[Tagtics] Could not persist feedback outbox', e);
+        }
+    };
+
+    return {
+        getAll: async () => read(),
+        put: async entry => write([...read().filter(e => e.id !== entry.id), entry]),
+        remove: async id => write(read().filter(e => e.id !== id)),
+    };
+}
+
+function getStore(): OutboxStore {
+    if (!store) {
+        store = createIndexedDBStore() || createLocalStorageStore();
+    }
+    return store;
+}
+
+// IndexedDB can be present but unusable (private mode, blocked storage).
+async function withFallback<T>(op: (s: OutboxStore) => Promise<T>): Promise<T> {
+    try {
+        return await op(getStore());
+    } catch (e) {
+        store = createLocalStorageStore();
+        return op(store);
+    }
+}
+
+
+// --- Queue ---
+
+export function createId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY);
+}
+
+// 408/429 and server errors are transient; any other 4xx will never succeed.
+function isRetryable(status?: number): boolean {
+    if (status === undefined) return true;
+    return status === 408 || status === 429 || status >= 500;
+}
+
+export async function enqueue(endpoint: string, payload: unknown, id: string = createId(), owner?: string): Promise<OutboxEntry> {
+    const now = Date.now();
+    const entry: OutboxEntry = {
+        id,
+        endpoint,
+        body: JSON.stringify(payload),
+        attempts: 0,
+        createdAt: now,
+        nextAttemptAt: now,
+    };
+    if (owner) {
+        entry.owner = owner;
+        entry.apiKey = senders.get(owner)?.apiKey;
+    }
+    pending.set(entry.id, entry);
+    await withFallback(s => s.put(entry));
+    return entry;
+}
+
+// Its own client's sender; entries from a destroyed client or an earlier page load
+// go to a live one with the same API key
+function getRegistration(entry: OutboxEntry): Registration | undefined {
+    const own = entry.owner ? senders.get(entry.owner) : undefined;
+    if (own) return own;
+    return Array.from(senders.values()).find(registration => !entry.apiKey || registration.apiKey === entry.apiKey);
+}
+
+export async function attemptDelivery(entry: OutboxEntry): Promise<DeliveryOutcome> {
+    const registration = getRegistration(entry);
+    if (!registration || inFlight.has(entry.id)) return 'retry';
+    inFlight.add(entry.id);
+
+    let result: DeliveryResult;
+    try {
+        result = await registration.send(entry);
+    } catch (e) {
+        result = { ok: false };
+    } finally {
+        inFlight.delete(entry.id);
+    }
+
+    if (result.ok) {
+        await removeEntry(entry.id);
+        return 'sent';
+    }
+
+    const updated = { ...entry, attempts: entry.attempts + 1 };
+    const expired = updated.attempts >= MAX_ATTEMPTS || Date.now() - updated.createdAt > MAX_AGE;
+    if (!isRetryable(result.status) || expired) {
+        console.warn('[Tagtics] Dropping undeliverable feedback', { id: entry.id, status: result.status });
+        await removeEntry(entry.id);
+        return 'dropped';
+    }
+
+    updated.nextAttemptAt = Date.now() + getRetryDelay(updated.attempts);
+    pending.set(updated.id, updated);
+    await withFallback(s => s.put(updated));
+    scheduleRetry();
+    return 'retry';
+}
+
+async function removeEntry(id: string) {
+    pending.delete(id);
+    await withFallback(s => s.remove(id));
+}
+
+export function flushOutbox(): Promise<void> {
+    if (flushing) return flushing;
+    flushing = (async () => {
+        try {
+            const entries = await withFallback(s => s.getAll());
+            entries.forEach(e => pending.set(e.id, e));
+            const now = Date.now();
+            for (const { id } of entries) {
+                // A concurrent send may have delivered or rescheduled it while we awaited
+                const entry = pending.get(id);
+                if (!entry || entry.nextAttemptAt > now || inFlight.has(id)) continue;
+                if (typeof navigator !== 'undefined' && navigator.onLine === false) break;
+                await attemptDelivery(entry);
+            }
+        } finally {
+            flushing = null;
+            scheduleRetry();
+        }
+    })();
+    return flushing;
+}
+
+function scheduleRetry() {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    // Entries nobody can deliver right now wait in storage for a matching client
+    const waiting = Array.from(pending.values()).filter(e => !inFlight.has(e.id) && getRegistration(e));
+    if (waiting.length === 0) return;
+
+    const next = Math.min(...waiting.map(e => e.nextAttemptAt));
+    retryTimer = setTimeout(() => {
+        retryTimer = null;
+        flushOutbox();
+    }, Math.max(0, next - Date.now()));
+}
+
+// sendBeacon can't set the x-api-key header, so the key goes in the query
+function getBeaconUrl(endpoint: string, apiKey?: string): string {
+    if (!apiKey) return endpoint;
+    try {
+        const url = new URL(endpoint, window.location.href);
+        url.searchParams.set('key', apiKey);
+        return url.toString();
+    } catch (e) {
+        return endpoint;
+    }
+}
+
+// Last chance on unload: hand everything still queued to the browser.
+function beaconPending() {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') return;
+    pending.forEach(entry => {
+        if (inFlight.has(entry.id)) return; // keepalive fetch is already on its way
+        const registration = getRegistration(entry);
+        if (!registration?.beacon) return;
+        const blob = new Blob([entry.body], { type: 'application/json' });
+        if (navigator.sendBeacon(getBeaconUrl(entry.endpoint, registration.apiKey), blob)) {
+            removeEntry(entry.id);
+        }
+    });
+}
+
+export function getPendingCount(): number {
+    return pending.size;
+}
+
+/**
+ * Starts retrying queued entries through `send`. Each client registers as its own
+ * `owner`, and entries it enqueues are only delivered through its sender. Pass
+ * `beacon: false` when delivery needs custom headers or a custom transport, which
+ * sendBeacon can't carry. `apiKey` is added to beacon URLs as `?key=`.
+ */
+export function startOutbox(send: OutboxSender, options: OutboxOptions = {}): Promise<void> {
+    senders.set(options.owner || DEFAULT_OWNER, { send, beacon: options.beacon !== false, apiKey: options.apiKey });
+    if (!listeners) {
+        listeners = {
+            online: () => { flushOutbox(); },
+            visibility: () => {
+                if (document.visibilityState === 'visible') flushOutbox();
+            },
+            pagehide: beaconPending,
+        };
+        window.addEventListener('online', listeners.online);
+        document.addEventListener('visibilitychange', listeners.visibility);
+        window.addEventListener('pagehide', listeners.pagehide);
+    }
+    return flushOutbox();
+}
+
+// Unregisters `owner` (default: everyone); the rest keeps running until the last one stops
+export function stopOutbox(owner?: string): void {
+    if (owner) senders.delete(owner);
+    else senders.clear();
+    if (senders.size) {
+        scheduleRetry();
+        return;
+    }
+    if (listeners) {
+        window.removeEventListener('online', listeners.online);
+        document.removeEventListener('visibilitychange', listeners.visibility);
+        window.removeEventListener('pagehide', listeners.pagehide);
+        listeners = null;
+    }
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    pending.clear();
+}
@@ -0,0 +1,120 @@
+// --- Redaction ---
+// Shared by the serializer, locators and screenshot capture so all of them
+// hide the same things.
+
+import type { RedactionReport } from './schema';
+
+export const SENSITIVE_INPUT_PATTERNS = /card|cc-|cvv|cvc|expiry|billing|cardholder/i;
+export const REDACT_ATTR_REGEX = /password|ssn|card|credit|cvv|pin/i;
+export const MASK_ATTR = 'data-tagtics-mask';
+
+export type BuiltInTextRule = 'email' | 'phone' | 'iban' | 'creditCard';
+export type TextRule = BuiltInTextRule | RegExp | { pattern: RegExp; token?: string; name?: string };
+
+export type RedactionConfig = {
+    selectors?: string[]; // Matching elements (and their subtree) are masked
+    attributes?: (string | RegExp)[]; // Extra attribute names whose values are redacted
+    text?: TextRule[]; // Replaces the defaults; pass [] to disable text scrubbing
+};
+
+export type { RedactionReport };
+
+type CompiledTextRule = { name: string; pattern: RegExp; token: string };
+
+// A compiled RedactionConfig. Each client keeps its own, so its payloads follow its rules
+export type RedactionRules = {
+    maskSelector: string;
+    attributes: (string | RegExp)[];
+    text: CompiledTextRule[];
+};
+
+// Order matters: card numbers would otherwise be eaten by the phone pattern
+const BUILT_IN_TEXT_RULES: Record<BuiltInTextRule, CompiledTextRule> = {
+    email: { name: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, token: '[EMAIL]' },
+    iban: { name: 'iban', pattern: /\b[A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,4})?\b/g, token: '[IBAN]' },
+    creditCard: { name: 'creditCard', pattern: /\b(?:\d[ -]?){12,18}\d\b/g, token: '[CARD]' },
+    phone: { name: 'phone', pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?)?\d{3,4}[\s.-]\d{3,4}(?:[\s.-]\d{2,4})?/g, token: '[PHONE]' },
+};
+
+const DEFAULT_TEXT_RULES: BuiltInTextRule[] = ['email', 'iban', 'creditCard', 'phone'];
+
+// Page-wide default, used by the breadcrumb and replay recorders
+let activeRules: RedactionRules = compileRedaction();
+
+function toGlobal(pattern: RegExp): RegExp {
+    return pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+}
+
+function compileTextRules(rules: TextRule[]): CompiledTextRule[] {
+    return rules.map((rule, i) => {
+        if (typeof rule === 'string') return BUILT_IN_TEXT_RULES[rule];
+        if (rule instanceof RegExp) return { name: 'custom', pattern: toGlobal(rule), token: '[REDACTED]' };
+        return { name: rule.name || `custom${i}`, pattern: toGlobal(rule.pattern), token: rule.token || '[REDACTED]' };
+    }).filter(Boolean);
+}
+
+export function compileRedaction(config: RedactionConfig = {}): RedactionRules {
+    const selectors = [`[${MASK_ATTR}]`];
+    (config.selectors || []).forEach(selector => {
+        try {
+            document.createDocumentFragment().querySelector(selector);
+            selectors.push(selector);
+        } catch (e) {
+            console.warn('[Tagtics] Invalid redaction selector:', selector);
+        }
+    });
+    return {
+        maskSelector: selectors.join(', '),
+        attributes: config.attributes || [],
+        text: compileTextRules(config.text || DEFAULT_TEXT_RULES),
+    };
+}
+
+export function configureRedaction(config: RedactionConfig = {}): void {
+    activeRules = compileRedaction(config);
+}
+
+export function createRedactionReport(): RedactionReport {
+    return { maskedElements: 0, attributes: 0, text: {} };
+}
+
+// True for elements inside a masked subtree (data-tagtics-mask or a configured selector)
+export function isMasked(el: Element, rules: RedactionRules = activeRules): boolean {
+    try {
+        return !!el.closest(rules.maskSelector);
+    } catch (e) {
+        return false;
+    }
+}
+
+export function isRedactedAttribute(name: string, rules: RedactionRules = activeRules): boolean {
+    if (REDACT_ATTR_REGEX.test(name)) return true;
+    return rules.attributes.some(pattern => typeof pattern === 'string'
+        ? name.toLowerCase().includes(pattern.toLowerCase())
+        : pattern.test(name));
+}
+
+export function scrubText(text: string, report?: RedactionReport, rules: RedactionRules = activeRules): string {
+    return rules.text.reduce((result, rule) => result.replace(rule.pattern, () => {
+        if (report) report.text[rule.name] = (report.text[rule.name] || 0) + 1;
+        return rule.token;
+    }), text);
+}
+
+const FORM_FIELD_TAGS = ['input', 'textarea', 'select'];
+
+export function isFormField(el: Element): boolean {
+    return FORM_FIELD_TAGS.includes(el.tagName.toLowerCase()) || (el as HTMLElement).isContentEditable === true;
+}
+
+// True if the element's own attributes hint at payment or credential data
+export function isSensitiveElement(el: Element, rules: RedactionRules = activeRules): boolean {
+    const hints = ['name', 'id', 'placeholder', 'aria-label', 'autocomplete']
+        .map(attr => el.getAttribute(attr) || '');
+    if (hints.some(hint => SENSITIVE_INPUT_PATTERNS.test(hint))) return true;
+
+    for (let i = 0; i < el.attributes.length; i++) {
+        if (isRedactedAttribute(el.attributes[i].name, rules)) return true;
+    }
+    return (el as HTMLInputElement).type === 'password';
+}
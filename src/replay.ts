@@ -0,0 +1,363 @@
+// --- Session Replay ---
+// Opt-in recorder for the seconds before feedback: a full snapshot of the page,
+// then DOM mutations, clicks, scrolls, resizes and route changes. Masked
+// subtrees, form values and scripts are never recorded; text and attributes
+// are scrubbed when the replay is attached to a payload.
+
+import { isMasked, isRedactedAttribute, scrubText, RedactionRules } from './redaction';
+import { stripUrl } from './breadcrumbs';
+import { onRouteChange } from './routing';
+import type { RedactionReport, Replay, ReplayEvent, ReplayMutation, ReplayNode } from './schema';
+
+export type ReplayOptions = {
+    seconds?: number; // How far back the replay reaches (default: 30)
+    maxEvents?: number; // A busier page starts over from a fresh snapshot (default: 5000)
+    maxBytes?: number; // Size budget of the attached replay; older snapshots go first (default: 1 MB)
+};
+
+export type { Replay };
+
+const DEFAULT_SECONDS = 30;
+const DEFAULT_MAX_EVENTS = 5000;
+// Leaves room in the ~5 MB localStorage outbox fallback for the rest of the payload and other entries
+const DEFAULT_MAX_BYTES = 1024 * 1024;
+const THROTTLE_MS = 100;
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const SKIPPED_TAGS = ['script', 'noscript', 'template'];
+// Masked elements keep these so the player can still draw their box
+const MASKED_ATTRIBUTES = ['class', 'style'];
+
+let ids = new WeakMap<Node, number>();
+let nextId = 1;
+let events: ReplayEvent[] = [];
+let windowMs = DEFAULT_SECONDS * 1000;
+let maxEvents = DEFAULT_MAX_EVENTS;
+let maxBytes = DEFAULT_MAX_BYTES;
+let isIgnored: (el: Element) => boolean = () => false;
+let observer: MutationObserver | null = null;
+let restorers: (() => void)[] = [];
+
+function assignId(node: Node): number {
+    let id = ids.get(node);
+    if (id === undefined) {
+        id = nextId++;
+        ids.set(node, id);
+    }
+    return id;
+}
+
+function isInsideIgnored(node: Node): boolean {
+    for (let el = node.nodeType === 1 ? node as Element : node.parentElement; el; el = el.parentElement) {
+        if (isIgnored(el)) return true;
+    }
+    return false;
+}
+
+// Typed text lives in form fields and contentEditable; like serializeElement, we leave it out
+function recordsChildren(el: Element): boolean {
+    return el.tagName.toLowerCase() !== 'textarea' && !(el as HTMLElement).isContentEditable && !isMasked(el);
+}
+
+function keepAttribute(el: Element, name: string, value: string): boolean {
+    if (/^on/i.test(name) || value.startsWith('data:')) return false;
+    if (name === 'value' && ['input', 'textarea'].includes(el.tagName.toLowerCase())) return false;
+    return !isMasked(el) || MASKED_ATTRIBUTES.includes(name);
+}
+
+// Rules added through the CSSOM (CSS-in-JS) never show up as text
+function getSheetText(el: Element): string {
+    try {
+        const rules = (el as HTMLStyleElement).sheet?.cssRules;
+        return rules ? Array.from(rules).map(rule => rule.cssText).join('\n') : '';
+    } catch (e) {
+        return '';
+    }
+}
+
+function serializeNode(node: Node): ReplayNode | null {
+    if (node.nodeType === 3) return { id: assignId(node), type: 'text', text: node.textContent || '' };
+    if (node.nodeType !== 1) return null;
+
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    if (SKIPPED_TAGS.includes(tag) || isIgnored(el)) return null;
+
+    const result: ReplayNode = { id: assignId(el), type: 'element', tag, attributes: {}, children: [] };
+    if (el.namespaceURI === SVG_NS) result.svg = true;
+    if (isMasked(el)) result.masked = true;
+    for (let i = 0; i < el.attributes.length; i++) {
+        const { name, value } = el.attributes[i];
+        if (keepAttribute(el, name, value)) result.attributes[name] = value;
+    }
+    if (!recordsChildren(el)) return result;
+
+    el.childNodes.forEach(child => {
+        const serialized = serializeNode(child);
+        if (serialized) result.children.push(serialized);
+    });
+    if (tag === 'style' && !el.textContent) {
+        const text = getSheetText(el);
+        if (text) result.children.push({ id: nextId++, type: 'text', text });
+    }
+    return result;
+}
+
+function record(event: ReplayEvent) {
+    events.push(event);
+    if (events.length > maxEvents && event.type !== 'snapshot') {
+        observer?.takeRecords();
+        events = [];
+        takeSnapshot();
+    }
+}
+
+function takeSnapshot() {
+    const root = serializeNode(document.documentElement);
+    if (!root) return;
+    record({
+        type: 'snapshot',
+        timestamp: Date.now(),
+        url: stripUrl(window.location.href),
+        viewport: { width: window.innerWidth, height: window.innerHeight },
+        scroll: { x: window.scrollX, y: window.scrollY },
+        root,
+    });
+}
+
+function processMutations(records: MutationRecord[]) {
+    const mutation: ReplayMutation = { removes: [], adds: [], attributes: [], texts: [] };
+    const added = new Set<Node>();
+    const attributes = new Map<string, ReplayMutation['attributes'][number]>();
+    const texts = new Map<number, string>();
+
+    records.forEach(change => {
+        if (change.type === 'childList') {
+            change.removedNodes.forEach(node => {
+                added.delete(node);
+                const id = ids.get(node);
+                if (id !== undefined) mutation.removes.push(id);
+            });
+            change.addedNodes.forEach(node => added.add(node));
+        } else if (change.type === 'attributes') {
+            const el = change.target as Element;
+            const id = ids.get(el);
+            const name = change.attributeName!;
+            const value = el.getAttribute(name);
+            if (id === undefined || (value !== null && !keepAttribute(el, name, value))) return;
+            attributes.set(`${id}:${name}`, { id, name, value });
+        } else {
+            const id = ids.get(change.target);
+            if (id !== undefined) texts.set(id, change.target.textContent || '');
+        }
+    });
+
+    // Only the outermost added nodes, in document order, so each can be placed before a sibling the player already has
+    const hasAddedAncestor = (node: Node) => {
+        for (let parent = node.parentNode; parent; parent = parent.parentNode) {
+            if (added.has(parent)) return true;
+        }
+        return false;
+    };
+    const roots = Array.from(added)
+        .filter(node => node.isConnected && !hasAddedAncestor(node))
+        .sort((a, b) => a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1);
+    const pending = new Set(roots);
+    roots.forEach(node => {
+        pending.delete(node);
+        const parent = node.parentNode;
+        const parentId = parent ? ids.get(parent) : undefined;
+        if (!parent || parentId === undefined || parent.nodeType !== 1 || !recordsChildren(parent as Element)) return;
+        const serialized = serializeNode(node);
+        if (!serialized) return;
+        let next = node.nextSibling;
+        while (next && (!ids.has(next) || pending.has(next))) next = next.nextSibling;
+        mutation.adds.push({ parentId, beforeId: next ? ids.get(next)! : null, node: serialized });
+    });
+
+    mutation.attributes = Array.from(attributes.values());
+    mutation.texts = Array.from(texts, ([id, text]) => ({ id, text }));
+    if (mutation.removes.length || mutation.adds.length || mutation.attributes.length || mutation.texts.length) {
+        record({ type: 'mutation', timestamp: Date.now(), ...mutation });
+    }
+}
+
+// Starts a new snapshot, keeping one full window of events before it
+function checkout() {
+    if (observer) processMutations(observer.takeRecords());
+    const previous = events.map(event => event.type).lastIndexOf('snapshot');
+    if (previous > 0) events.splice(0, previous);
+    takeSnapshot();
+}
+
+function listenForInput() {
+    const scrolled = new Set<Element | null>();
+    let scrollTimer: ReturnType<typeof setTimeout> | undefined;
+    let resizeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const flushScrolls = () => {
+        scrollTimer = undefined;
+        scrolled.forEach(el => {
+            if (!el) {
+                record({ type: 'scroll', timestamp: Date.now(), id: null, x: window.scrollX, y: window.scrollY });
+                return;
+            }
+            const id = ids.get(el);
+            if (id !== undefined) record({ type: 'scroll', timestamp: Date.now(), id, x: el.scrollLeft, y: el.scrollTop });
+        });
+        scrolled.clear();
+    };
+    const onScroll = (e: Event) => {
+        const target = e.target as Node;
+        const el = target === document || target === document.documentElement ? null : target as Element;
+        if (el && isInsideIgnored(el)) return;
+        scrolled.add(el);
+        if (!scrollTimer) scrollTimer = setTimeout(flushScrolls, THROTTLE_MS);
+    };
+    const onResize = () => {
+        if (resizeTimer) return;
+        resizeTimer = setTimeout(() => {
+            resizeTimer = undefined;
+            record({ type: 'viewport', timestamp: Date.now(), width: window.innerWidth, height: window.innerHeight });
+        }, THROTTLE_MS);
+    };
+    const onClick = (e: MouseEvent) => {
+        const target = e.target as Node | null;
+        if (target && isInsideIgnored(target)) return;
+        record({ type: 'click', timestamp: Date.now(), x: e.clientX, y: e.clientY, id: (target && ids.get(target)) ?? null });
+    };
+
+    document.addEventListener('scroll', onScroll, true);
+    document.addEventListener('click', onClick, true);
+    window.addEventListener('resize', onResize);
+    const stopRoutes = onRouteChange(() => record({ type: 'route', timestamp: Date.now(), url: stripUrl(window.location.href) }));
+    restorers.push(() => {
+        document.removeEventListener('scroll', onScroll, true);
+        document.removeEventListener('click', onClick, true);
+        window.removeEventListener('resize', onResize);
+        stopRoutes();
+        clearTimeout(scrollTimer);
+        clearTimeout(resizeTimer);
+    });
+}
+
+/**
+ * Starts recording from a full snapshot. `ignore` keeps elements (such as the
+ * widget itself) and everything inside them out of the replay.
+ */
+export function startReplay(options: ReplayOptions = {}, ignore?: (el: Element) => boolean): void {
+    stopReplay();
+    if (typeof MutationObserver === 'undefined') return;
+    windowMs = (options.seconds || DEFAULT_SECONDS) * 1000;
+    maxEvents = options.maxEvents || DEFAULT_MAX_EVENTS;
+    maxBytes = options.maxBytes || DEFAULT_MAX_BYTES;
+    if (ignore) isIgnored = ignore;
+
+    takeSnapshot();
+    const mutations = new MutationObserver(processMutations);
+    mutations.observe(document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true });
+    observer = mutations;
+    const interval = setInterval(checkout, windowMs);
+    restorers.push(() => {
+        mutations.disconnect();
+        clearInterval(interval);
+    });
+    listenForInput();
+}
+
+// Stops observing and empties the buffer
+export function stopReplay(): void {
+    restorers.forEach(restore => restore());
+    restorers = [];
+    observer = null;
+    events = [];
+    ids = new WeakMap();
+    nextId = 1;
+    isIgnored = () => false;
+}
+
+// Drops everything recorded so far and starts again from a fresh snapshot
+export function clearReplay(): void {
+    if (!observer) return;
+    observer.takeRecords();
+    events = [];
+    takeSnapshot();
+}
+
+function redactAttributes(attributes: Record<string, string>, report?: RedactionReport, rules?: RedactionRules): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.entries(attributes).forEach(([name, value]) => {
+        if (isRedactedAttribute(name, rules)) {
+            result[name] = '[REDACTED]';
+            if (report) report.attributes++;
+        } else {
+            result[name] = scrubText(value, report, rules);
+        }
+    });
+    return result;
+}
+
+function redactNode(node: ReplayNode, report?: RedactionReport, rules?: RedactionRules, parentTag?: string): ReplayNode {
+    // Scrubbing CSS would only break it
+    if (node.type === 'text') return parentTag === 'style' ? node : { ...node, text: scrubText(node.text, report, rules) };
+    if (node.masked && report) report.maskedElements++;
+    return {
+        ...node,
+        attributes: redactAttributes(node.attributes, report, rules),
+        children: node.children.map(child => redactNode(child, report, rules, node.tag)),
+    };
+}
+
+function redactEvent(event: ReplayEvent, report?: RedactionReport, rules?: RedactionRules): ReplayEvent {
+    switch (event.type) {
+        case 'snapshot':
+            return { ...event, url: scrubText(event.url, report, rules), root: redactNode(event.root, report, rules) };
+        case 'mutation':
+            return {
+                ...event,
+                adds: event.adds.map(add => ({ ...add, node: redactNode(add.node, report, rules) })),
+                attributes: event.attributes.map(change => change.value === null ? change
+                    : { ...change, value: redactAttributes({ [change.name]: change.value }, report, rules)[change.name] }),
+                texts: event.texts.map(change => ({ ...change, text: scrubText(change.text, report, rules) })),
+            };
+        case 'route':
+            return { ...event, url: scrubText(event.url, report, rules) };
+        default:
+            return event;
+    }
+}
+
+function byteLength(text: string): number {
+    return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(text).length : text.length;
+}
+
+/**
+ * Copy of the last `seconds` (at least) scrubbed with `rules` (default: the
+ * page-wide ones), starting from the snapshot just before them. Over `maxBytes`,
+ * it starts at a later snapshot instead (`trimmed`), or has no events at all
+ * (`omitted`). Undefined while not recording.
+ */
+export function getReplay(report?: RedactionReport, rules?: RedactionRules): Replay | undefined {
+    if (!observer || !events.length) return undefined;
+    processMutations(observer.takeRecords());
+
+    const endedAt = Date.now();
+    let windowStart = 0;
+    events.forEach((event, i) => {
+        if (event.type === 'snapshot' && event.timestamp <= endedAt - windowMs) windowStart = i;
+    });
+
+    // Measured before scrubbing so the redaction report only counts what is sent
+    const sizes = events.map(event => byteLength(JSON.stringify(event)));
+    const sizeFrom = (index: number) => sizes.slice(index).reduce((total, size) => total + size, 0);
+    let start = windowStart;
+    while (sizeFrom(start) > maxBytes) {
+        const next = events.findIndex((event, i) => i > start && event.type === 'snapshot');
+        if (next === -1) return { startedAt: endedAt, endedAt, events: [], omitted: { bytes: sizeFrom(start), maxBytes } };
+        start = next;
+    }
+
+    const recorded = events.slice(start);
+    const replay: Replay = { startedAt: recorded[0].timestamp, endedAt, events: recorded.map(event => redactEvent(event, report, rules)) };
+    if (start > windowStart) replay.trimmed = true;
+    return replay;
+}
@@ -0,0 +1,88 @@
+// --- Review Overlay ---
+// Existing feedback for the current path, grouped into threads and pinned to
+// the elements it was left on, so reviewers can reply or +1 instead of filing
+// a duplicate. Replies are ordinary payloads with `replyTo` set.
+
+import { locateElement } from './locators';
+import { isHTMLElement } from './dom';
+import { isFeedbackPayload, migratePayload, FeedbackPayload } from './schema';
+
+export type ReviewSource = string | ((path: string) => Promise<FeedbackPayload[]>);
+
+export type ReviewOptions = {
+    // URL of a JSON list, either an array or { items } like the local receiver returns,
+    // or a loader function. Default: the endpoint feedback is sent to
+    source?: ReviewSource;
+};
+
+export type ReviewThread = {
+    item: FeedbackPayload;
+    replies: FeedbackPayload[]; // Oldest first
+    votes: number;
+};
+
+const byTimestamp = (a: FeedbackPayload, b: FeedbackPayload) => a.timestamp - b.timestamp;
+
+// Oldest first, so pin numbers don't shift when new feedback arrives
+export function groupThreads(items: FeedbackPayload[], path: string): ReviewThread[] {
+    const onPath = items.filter(item => item.path === path).sort(byTimestamp);
+    const threads = new Map<string, ReviewThread>();
+    onPath.forEach(item => {
+        if (!item.replyTo) threads.set(item.submissionId, { item, replies: [], votes: 0 });
+    });
+    onPath.forEach(reply => {
+        const thread = reply.replyTo ? threads.get(reply.replyTo) : undefined;
+        if (!thread) return; // Top-level item, or the original isn't loaded
+        if (reply.upvote) thread.votes++;
+        else thread.replies.push(reply);
+    });
+    return Array.from(threads.values());
+}
+
+// Local files and older receivers may hold v1 or malformed items; only valid ones are pinned
+function toPayloads(items: unknown[]): FeedbackPayload[] {
+    return items.flatMap(item => {
+        try {
+            const payload = migratePayload(item as Record<string, any>);
+            return isFeedbackPayload(payload) ? [payload] : [];
+        } catch (e) {
+            return [];
+        }
+    });
+}
+
+async function fetchPage(url: URL, headers: Record<string, string>): Promise<{ items: unknown[]; total?: number }> {
+    const response = await fetch(url.toString(), { headers });
+    if (!response.ok) throw new Error(`Tagtics: Could not load feedback (status ${response.status})`);
+    const body = await response.json();
+    if (Array.isArray(body)) return { items: body };
+    return { items: Array.isArray(body?.items) ? body.items : [], total: typeof body?.total === 'number' ? body.total : undefined };
+}
+
+/**
+ * URL sources get ?path= so servers can filter; groupThreads filters again either way.
+ * `{ items, total }` responses are paged through with ?offset= until every item is
+ * loaded, so replies to older threads aren't cut off.
+ */
+export async function loadFeedback(source: ReviewSource, path: string, headers: Record<string, string> = {}): Promise<FeedbackPayload[]> {
+    if (typeof source === 'function') return toPayloads(await source(path));
+    const url = new URL(source, window.location.href);
+    url.searchParams.set('path', path);
+    let page = await fetchPage(url, headers);
+    const items = [...page.items];
+    // An empty page ends it too, in case `total` is off
+    while (page.total !== undefined && page.items.length && items.length < page.total) {
+        url.searchParams.set('offset', String(items.length));
+        page = await fetchPage(url, headers);
+        items.push(...page.items);
+    }
+    return toPayloads(items);
+}
+
+// The thread's first element, or null for page feedback and elements that are gone
+export function locateThread(thread: ReviewThread): HTMLElement | null {
+    const { item } = thread;
+    const locators = item.selections[0]?.locators || ('locators' in item.selected ? item.selected.locators : undefined);
+    const element = locators ? locateElement(locators)?.element : null;
+    return isHTMLElement(element) ? element : null;
+}
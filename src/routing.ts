@@ -0,0 +1,106 @@
+// --- Route Changes ---
+// SPA navigations have no single event, so history.pushState/replaceState are
+// wrapped once per page and shared by every subscriber. The originals come
+// back when the last subscriber leaves.
+
+type RouteListener = () => void;
+
+const listeners = new Set<RouteListener>();
+let patched: { pushState: History['pushState']; replaceState: History['replaceState'] } | null = null;
+let originals: { pushState: History['pushState']; replaceState: History['replaceState'] } | null = null;
+
+function notify() {
+    Array.from(listeners).forEach(listener => listener());
+}
+
+function patchHistory() {
+    const { pushState, replaceState } = history;
+    originals = { pushState, replaceState };
+    patched = {
+        pushState(...args) {
+            pushState.apply(this, args);
+            notify();
+        },
+        replaceState(...args) {
+            replaceState.apply(this, args);
+            notify();
+        },
+    };
+    history.pushState = patched.pushState;
+    history.replaceState = patched.replaceState;
+    window.addEventListener('popstate', notify);
+}
+
+function restoreHistory() {
+    // Someone wrapped them after us; unwrapping would drop their hook, so ours stays in place idle
+    if (!patched || !originals || history.pushState !== patched.pushState || history.replaceState !== patched.replaceState) return;
+    history.pushState = originals.pushState;
+    history.replaceState = originals.replaceState;
+    window.removeEventListener('popstate', notify);
+    patched = null;
+    originals = null;
+}
+
+// Calls the listener after back/forward and programmatic navigation; returns an unsubscribe function
+export function onRouteChange(listener: RouteListener): () => void {
+    listeners.add(listener);
+    if (!patched) patchHistory();
+    return () => {
+        listeners.delete(listener);
+        if (!listeners.size) restoreHistory();
+    };
+}
+
+
+// --- Route Matching ---
+
+export type RouteMatch =
+    | string // Regex tested against the pathname, like includePaths
+    | RegExp
+    | ((location: Location) => boolean)
+    | {
+        pathname?: string | RegExp;
+        hash?: string | RegExp; // Includes the leading '#'
+        query?: Record<string, string | RegExp | boolean>; // Strings match exactly; true: present, false: absent
+    };
+
+// Global and sticky regexes keep lastIndex between calls, so the same path would alternately match
+function testRegExp(pattern: RegExp, value: string): boolean {
+    return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, '')).test(value);
+}
+
+function testPattern(pattern: string | RegExp, value: string): boolean {
+    if (pattern instanceof RegExp) return testRegExp(pattern, value);
+    try {
+        return new RegExp(pattern).test(value);
+    } catch (e) {
+        console.warn('[Tagtics] Invalid route pattern:', pattern);
+        return false;
+    }
+}
+
+// Object matches need every given part to match
+export function matchesRoute(match: RouteMatch, location: Location = window.location): boolean {
+    if (typeof match === 'function') {
+        try {
+            return !!match(location);
+        } catch (e) {
+            console.warn('[Tagtics] Route predicate threw', e);
+            return false;
+        }
+    }
+    if (typeof match === 'string' || match instanceof RegExp) return testPattern(match, location.pathname);
+
+    if (match.pathname !== undefined && !testPattern(match.pathname, location.pathname)) return false;
+    if (match.hash !== undefined && !testPattern(match.hash, location.hash)) return false;
+    if (match.query) {
+        const params = new URLSearchParams(location.search);
+        return Object.entries(match.query).every(([name, expected]) => {
+            const value = params.get(name);
+            if (typeof expected === 'boolean') return expected === (value !== null);
+            if (value === null) return false;
+            return expected instanceof RegExp ? testRegExp(expected, value) : value === expected;
+        });
+    }
+    return true;
+}
@@ -0,0 +1,365 @@
+// --- Payload Schema ---
+// The wire format shared by the client, the dev receiver and third-party
+// backends. This module has no imports so servers can load it without the
+// DOM-bound rest of the widget.
+//
+// Version history:
+//   1  Unversioned payloads from releases up to 1.3.x: a single `selected`
+//      element, no submission id, locators or redaction report.
+//   2  `schemaVersion`, `submissionId`, `selections`, `locators`, `redactions`.
+
+export const SCHEMA_VERSION = 2;
+
+export type ViewportRect = { top: number; left: number; width: number; height: number };
+
+export type LocatorBundle = {
+    testId?: { attr: string; value: string };
+    css?: string;
+    role?: { role: string; name: string };
+    text?: { tag: string; text: string };
+    xpath: string;
+    scope?: string; // Set when the element lives in a shadow root or iframe; other strategies search inside it
+};
+
+export type RedactionReport = {
+    maskedElements: number;
+    attributes: number;
+    text: Record<string, number>; // Matches replaced, per rule name
+};
+
+export type SerializedElement = {
+    tag: string;
+    attributes: Record<string, string>;
+    text: string; // Leaf elements only, scrubbed and cut to 200 characters
+    styles: Record<string, string>;
+    children: SerializedElement[];
+    masked?: true; // Masked subtrees keep only their tag and styles
+    shadowRoot?: SerializedElement[];
+    frame?: SerializedElement; // Body of a same-origin iframe
+};
+
+export type AncestorInfo = { xpath: string; tag: string; descriptor: string };
+
+export type PayloadSelection = {
+    type: 'element' | 'region';
+    xpath: string;
+    tag: string;
+    descriptor: string;
+    locators: LocatorBundle;
+    serialized: SerializedElement;
+    ancestors: AncestorInfo[]; // Nearest first, up to <body>
+    rect: ViewportRect | null; // null only for selections migrated from version 1
+};
+
+// `selected` mirrors the first selection, or marks whole-page feedback
+export type PayloadSelected = Omit<PayloadSelection, 'type' | 'rect'> | { tag: 'PAGE_FEEDBACK' };
+
+export type FeedbackFields = {
+    category?: string;
+    severity?: string;
+    rating?: number; // 1-5 for both stars and emoji
+    email?: string;
+    custom?: Record<string, string | boolean>;
+};
+
+export type TagticsUser = {
+    id: string;
+    email?: string;
+    name?: string;
+    traits?: Record<string, unknown>; // e.g. plan, company, role
+};
+
+export type Breadcrumb =
+    | { type: 'console'; level: 'error' | 'warn'; message: string; timestamp: number }
+    | { type: 'error'; message: string; source?: string; line?: number; column?: number; stack?: string; timestamp: number }
+    | { type: 'network'; method: string; url: string; status: number; duration: number; error?: string; timestamp: number };
+
+export type Screenshot = {
+    element?: string; // PNG data URL
+    viewport?: string;
+};
+
+// Replay nodes are numbered once and keep their id for as long as they stay in the page
+export type ReplayNode =
+    | { id: number; type: 'element'; tag: string; attributes: Record<string, string>; children: ReplayNode[]; svg?: true; masked?: true }
+    | { id: number; type: 'text'; text: string };
+
+export type ReplayMutation = {
+    removes: number[];
+    adds: { parentId: number; beforeId: number | null; node: ReplayNode }[]; // Apply in order, after removes
+    attributes: { id: number; name: string; value: string | null }[]; // null removes the attribute
+    texts: { id: number; text: string }[];
+};
+
+export type ReplayEvent =
+    | { type: 'snapshot'; timestamp: number; url: string; viewport: { width: number; height: number }; scroll: { x: number; y: number }; root: ReplayNode }
+    | ({ type: 'mutation'; timestamp: number } & ReplayMutation)
+    | { type: 'click'; timestamp: number; x: number; y: number; id: number | null }
+    | { type: 'scroll'; timestamp: number; id: number | null; x: number; y: number } // id null is the window
+    | { type: 'viewport'; timestamp: number; width: number; height: number }
+    | { type: 'route'; timestamp: number; url: string };
+
+export type Replay = {
+    startedAt: number;
+    endedAt: number; // When the feedback was sent
+    events: ReplayEvent[]; // Oldest first, starting with a snapshot; empty when `omitted`
+    trimmed?: true; // Starts at a later snapshot than `seconds` asks for, to stay under maxBytes
+    omitted?: { bytes: number; maxBytes: number }; // Even the newest snapshot was over maxBytes
+};
+
+export type FeedbackPayload = {
+    schemaVersion: typeof SCHEMA_VERSION;
+    submissionId: string; // Stable across outbox retries, use it to deduplicate
+    feedback: string;
+    pageUrl: string;
+    path: string;
+    timestamp: number;
+    clientMeta: { ua: string; viewport: { width: number; height: number } };
+    selected: PayloadSelected;
+    selections: PayloadSelection[];
+    hasEmbeds: boolean;
+    embedHostnames: string[];
+    redactions: RedactionReport;
+    fields?: FeedbackFields;
+    user?: TagticsUser;
+    context?: Record<string, unknown>;
+    release?: string;
+    environment?: string;
+    breadcrumbs?: Breadcrumb[];
+    screenshot?: Screenshot;
+    replay?: Replay;
+    replyTo?: string; // submissionId of the feedback this replies to
+    upvote?: true; // A +1 on `replyTo`; `feedback` is empty
+};
+
+
+// --- Validation ---
+
+export type ValidationError = { path: string; message: string };
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Dashboards link to pageUrl, so a javascript: or data: URL must never get through
+const isWebUrl = (value: unknown): boolean => {
+    if (typeof value !== 'string') return false;
+    try {
+        const { protocol } = new URL(value);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch (e) {
+        return false;
+    }
+};
+
+const REPLAY_EVENT_TYPES = ['snapshot', 'mutation', 'click', 'scroll', 'viewport', 'route'];
+
+// Serialized trees are bounded by serializeChildDepth, this only guards against hostile input
+const MAX_TREE_DEPTH = 50;
+
+/**
+ * Structural check of a current-version payload. Returns every problem found,
+ * so an empty array means valid. Run older payloads through migratePayload first.
+ */
+export function validatePayload(value: unknown): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const expect = (condition: boolean, path: string, message: string) => {
+        if (!condition) errors.push({ path, message });
+        return condition;
+    };
+    const expectObject = (value: unknown, path: string): value is Record<string, any> => expect(isObject(value), path, 'must be an object');
+    const expectArray = (value: unknown, path: string): value is unknown[] => expect(Array.isArray(value), path, 'must be an array');
+    const expectString = (value: unknown, path: string) => expect(typeof value === 'string', path, 'must be a string');
+    const expectOptional = (value: unknown, path: string, type: 'string' | 'number' | 'boolean') => {
+        if (value !== undefined) expect(typeof value === type, path, `must be a ${type}`);
+    };
+
+    const checkTree = (node: unknown, path: string, depth: number): void => {
+        if (!expectObject(node, path)) return;
+        if (!expect(depth < MAX_TREE_DEPTH, path, `must not be nested deeper than ${MAX_TREE_DEPTH} levels`)) return;
+        expectString(node.tag, `${path}.tag`);
+        expectObject(node.attributes, `${path}.attributes`);
+        expectString(node.text, `${path}.text`);
+        expectObject(node.styles, `${path}.styles`);
+        if (expectArray(node.children, `${path}.children`)) {
+            node.children.forEach((child, i) => checkTree(child, `${path}.children[${i}]`, depth + 1));
+        }
+        if (node.shadowRoot !== undefined && expectArray(node.shadowRoot, `${path}.shadowRoot`)) {
+            node.shadowRoot.forEach((child, i) => checkTree(child, `${path}.shadowRoot[${i}]`, depth + 1));
+        }
+        if (node.frame !== undefined) checkTree(node.frame, `${path}.frame`, depth + 1);
+    };
+
+    const checkElementInfo = (info: Record<string, any>, path: string) => {
+        expectString(info.xpath, `${path}.xpath`);
+        expectString(info.tag, `${path}.tag`);
+        expectString(info.descriptor, `${path}.descriptor`);
+        if (expectObject(info.locators, `${path}.locators`)) {
+            expectString(info.locators.xpath, `${path}.locators.xpath`);
+        }
+        checkTree(info.serialized, `${path}.serialized`, 0);
+        if (expectArray(info.ancestors, `${path}.ancestors`)) {
+            info.ancestors.forEach((ancestor, i) => {
+                if (expectObject(ancestor, `${path}.ancestors[${i}]`)) {
+                    expectString(ancestor.xpath, `${path}.ancestors[${i}].xpath`);
+                    expectString(ancestor.tag, `${path}.ancestors[${i}].tag`);
+                }
+            });
+        }
+    };
+
+    if (!isObject(value)) return [{ path: '', message: 'must be a JSON object' }];
+
+    expect(value.schemaVersion === SCHEMA_VERSION, 'schemaVersion', `must be ${SCHEMA_VERSION}; upgrade older payloads with migratePayload()`);
+    expect(typeof value.submissionId === 'string' && value.submissionId.length > 0, 'submissionId', 'must be a non-empty string');
+    expectString(value.feedback, 'feedback');
+    expect(isWebUrl(value.pageUrl), 'pageUrl', 'must be an http(s) URL');
+    expectString(value.path, 'path');
+    expect(isNumber(value.timestamp), 'timestamp', 'must be a number');
+    if (expectObject(value.clientMeta, 'clientMeta')) {
+        expectString(value.clientMeta.ua, 'clientMeta.ua');
+        const viewport = value.clientMeta.viewport;
+        expect(isObject(viewport) && isNumber(viewport.width) && isNumber(viewport.height), 'clientMeta.viewport', 'must have numeric width and height');
+    }
+
+    if (expectObject(value.selected, 'selected')) {
+        if (value.selected.tag !== 'PAGE_FEEDBACK') checkElementInfo(value.selected, 'selected');
+    }
+    if (expectArray(value.selections, 'selections')) {
+        value.selections.forEach((selection, i) => {
+            const path = `selections[${i}]`;
+            if (!expectObject(selection, path)) return;
+            expect(selection.type === 'element' || selection.type === 'region', `${path}.type`, 'must be "element" or "region"');
+            checkElementInfo(selection, path);
+            const rect = selection.rect;
+            expect(rect === null || (isObject(rect) && ['top', 'left', 'width', 'height'].every(key => isNumber(rect[key]))),
+                `${path}.rect`, 'must be null or have numeric top, left, width and height');
+        });
+    }
+
+    expect(typeof value.hasEmbeds === 'boolean', 'hasEmbeds', 'must be a boolean');
+    expect(Array.isArray(value.embedHostnames) && value.embedHostnames.every((host: unknown) => typeof host === 'string'),
+        'embedHostnames', 'must be an array of strings');
+    if (expectObject(value.redactions, 'redactions')) {
+        expect(isNumber(value.redactions.maskedElements), 'redactions.maskedElements', 'must be a number');
+        expect(isNumber(value.redactions.attributes), 'redactions.attributes', 'must be a number');
+        expectObject(value.redactions.text, 'redactions.text');
+    }
+
+    if (value.fields !== undefined && expectObject(value.fields, 'fields')) {
+        expectOptional(value.fields.category, 'fields.category', 'string');
+        expectOptional(value.fields.severity, 'fields.severity', 'string');
+        expectOptional(value.fields.rating, 'fields.rating', 'number');
+        expectOptional(value.fields.email, 'fields.email', 'string');
+        if (value.fields.custom !== undefined) expectObject(value.fields.custom, 'fields.custom');
+    }
+    if (value.user !== undefined && expectObject(value.user, 'user')) {
+        expectString(value.user.id, 'user.id');
+    }
+    if (value.context !== undefined) expectObject(value.context, 'context');
+    expectOptional(value.release, 'release', 'string');
+    expectOptional(value.environment, 'environment', 'string');
+    if (value.breadcrumbs !== undefined && expectArray(value.breadcrumbs, 'breadcrumbs')) {
+        value.breadcrumbs.forEach((crumb, i) => {
+            expect(isObject(crumb) && ['console', 'error', 'network'].includes(crumb.type) && isNumber(crumb.timestamp),
+                `breadcrumbs[${i}]`, 'must be a console, error or network entry with a timestamp');
+        });
+    }
+    if (value.screenshot !== undefined && expectObject(value.screenshot, 'screenshot')) {
+        expectOptional(value.screenshot.element, 'screenshot.element', 'string');
+        expectOptional(value.screenshot.viewport, 'screenshot.viewport', 'string');
+    }
+    if (value.replay !== undefined && expectObject(value.replay, 'replay')) {
+        expect(isNumber(value.replay.startedAt), 'replay.startedAt', 'must be a number');
+        expect(isNumber(value.replay.endedAt), 'replay.endedAt', 'must be a number');
+        if (expectArray(value.replay.events, 'replay.events')) {
+            const events = value.replay.events;
+            if (events.length || value.replay.omitted === undefined) {
+                expect(isObject(events[0]) && events[0].type === 'snapshot', 'replay.events[0]', 'must be a snapshot');
+            }
+            events.forEach((event, i) => {
+                expect(isObject(event) && REPLAY_EVENT_TYPES.includes(event.type) && isNumber(event.timestamp),
+                    `replay.events[${i}]`, `must be a ${REPLAY_EVENT_TYPES.join(', ')} event with a timestamp`);
+            });
+        }
+    }
+    if (value.replay?.omitted !== undefined) {
+        const omitted = value.replay.omitted;
+        expect(isObject(omitted) && isNumber(omitted.bytes) && isNumber(omitted.maxBytes), 'replay.omitted', 'must have numeric bytes and maxBytes');
+    }
+    if (value.replyTo !== undefined) {
+        expect(typeof value.replyTo === 'string' && value.replyTo.length > 0, 'replyTo', 'must be a non-empty string');
+    }
+    if (value.upvote !== undefined) {
+        expect(value.upvote === true && value.replyTo !== undefined, 'upvote', 'must be true and come with replyTo');
+    }
+    return errors;
+}
+
+export function isFeedbackPayload(value: unknown): value is FeedbackPayload {
+    return validatePayload(value).length === 0;
+}
+
+
+// --- Migrations ---
+// One step per version, keyed by the version it upgrades from. Steps only fill
+// in what is missing, since pre-release builds already sent some newer fields.
+
+type Migration = (payload: Record<string, any>) => Record<string, any>;
+
+const MIGRATIONS: Record<number, Migration> = {
+    1: payload => {
+        const selected: Record<string, any> = isObject(payload.selected) ? payload.selected : { tag: 'PAGE_FEEDBACK' };
+        const upgradeInfo = (info: Record<string, any>): Record<string, any> => ({
+            ...info,
+            descriptor: typeof info.descriptor === 'string' ? info.descriptor.trim() : '',
+            locators: isObject(info.locators) ? info.locators : { xpath: info.xpath },
+            ancestors: Array.isArray(info.ancestors) ? info.ancestors : [],
+        });
+        const upgradedSelected = selected.tag === 'PAGE_FEEDBACK' ? selected : upgradeInfo(selected);
+        return {
+            ...payload,
+            schemaVersion: 2,
+            // Version 1 had no id; derive one so re-imports still deduplicate
+            submissionId: payload.submissionId || `v1-${payload.timestamp}-${hashString(`${payload.pageUrl}\n${payload.feedback}`)}`,
+            selected: upgradedSelected,
+            selections: Array.isArray(payload.selections)
+                ? payload.selections
+                : (upgradedSelected.tag === 'PAGE_FEEDBACK' ? [] : [{ type: 'element', ...upgradedSelected, rect: null }]),
+            hasEmbeds: !!payload.hasEmbeds,
+            embedHostnames: Array.isArray(payload.embedHostnames) ? payload.embedHostnames : [],
+            redactions: isObject(payload.redactions) ? payload.redactions : { maskedElements: 0, attributes: 0, text: {} },
+        };
+    },
+};
+
+// Payloads without `schemaVersion` predate it
+export function getSchemaVersion(payload: Record<string, any>): number {
+    return payload.schemaVersion === undefined ? 1 : payload.schemaVersion;
+}
+
+/**
+ * Upgrades a payload from any earlier version to SCHEMA_VERSION. Current payloads
+ * are returned unchanged; the input is never mutated. Throws for unknown or newer
+ * versions, which need a newer copy of this module. Validate the result afterwards.
+ */
+export function migratePayload(payload: Record<string, any>): Record<string, any> {
+    let version = getSchemaVersion(payload);
+    if (!Number.isInteger(version) || version < 1 || version > SCHEMA_VERSION) {
+        throw new Error(`Tagtics: unsupported payload schemaVersion ${JSON.stringify(payload.schemaVersion)} (supported: 1-${SCHEMA_VERSION})`);
+    }
+    let result = payload;
+    while (version < SCHEMA_VERSION) {
+        result = MIGRATIONS[version](result);
+        version++;
+    }
+    return result;
+}
+
+// djb2, only used to derive stable ids
+function hashString(text: string): string {
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    return (hash >>> 0).toString(36);
+}
@@ -0,0 +1,204 @@
+import { isFormField, isMasked, isSensitiveElement, scrubText, RedactionRules } from './redaction';
+import type { Screenshot } from './schema';
+
+// --- Screenshot Capture ---
+// Rasterizes a styled clone of the DOM through an SVG foreignObject, so no
+// third-party library or browser permission is needed. Form fields, sensitive
+// and masked elements are painted over and text is scrubbed before anything
+// reaches the canvas.
+
+export type ScreenshotOptions = {
+    viewport?: boolean; // Also capture the visible viewport
+    scale?: number; // Pixel ratio, defaults to devicePixelRatio capped at 2
+    maxNodes?: number; // Elements to clone before giving up on the rest
+};
+
+export type { Screenshot };
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+const SKIPPED_TAGS = ['script', 'noscript', 'template', 'style', 'link', 'meta'];
+const MASK_COLOR = '#000';
+const PLACEHOLDER_COLOR = '#d4d4d4';
+const MAX_DIMENSION = 4096;
+const LOAD_TIMEOUT = 5000;
+const DEFAULT_MAX_NODES = 2000;
+
+
+// --- Cloning ---
+
+function inlineStyles(source: Element, target: HTMLElement) {
+    const computed = window.getComputedStyle(source);
+    let cssText = '';
+    for (let i = 0; i < computed.length; i++) {
+        const name = computed[i];
+        cssText += `${name}:${computed.getPropertyValue(name)};`;
+    }
+    target.setAttribute('style', cssText);
+}
+
+function mask(source: Element, clone: HTMLElement, color: string) {
+    const rect = source.getBoundingClientRect();
+    while (clone.firstChild) clone.removeChild(clone.firstChild);
+    clone.removeAttribute('value');
+    clone.removeAttribute('placeholder');
+    clone.style.display = 'inline-block';
+    clone.style.width = `${rect.width}px`;
+    clone.style.height = `${rect.height}px`;
+    clone.style.background = color;
+    clone.style.color = 'transparent';
+}
+
+// Same-origin, fully loaded images can be inlined; anything else would taint the canvas
+function inlineImage(source: HTMLImageElement): string | null {
+    if (!source.complete || !source.naturalWidth) return null;
+    try {
+        const canvas = document.createElement('canvas');
+        canvas.width = source.naturalWidth;
+        canvas.height = source.naturalHeight;
+        canvas.getContext('2d')!.drawImage(source, 0, 0);
+        return canvas.toDataURL();
+    } catch (e) {
+        return null;
+    }
+}
+
+function cloneNode(node: Node, budget: { remaining: number }, rules?: RedactionRules): Node | null {
+    if (node.nodeType === Node.TEXT_NODE) return document.createTextNode(scrubText(node.textContent || '', undefined, rules));
+    if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+    const source = node as Element;
+    const tag = source.tagName.toLowerCase();
+    if (source.id === 'tagtics-host' || SKIPPED_TAGS.includes(tag)) return null;
+    if (budget.remaining-- <= 0) return null;
+
+    if (tag === 'canvas') {
+        const img = document.createElement('img');
+        inlineStyles(source, img);
+        try {
+            img.src = (source as HTMLCanvasElement).toDataURL();
+        } catch (e) {
+            mask(source, img, PLACEHOLDER_COLOR);
+        }
+        return img;
+    }
+
+    const clone = source.cloneNode(false) as HTMLElement;
+    inlineStyles(source, clone);
+
+    if (isFormField(source) || isSensitiveElement(source, rules) || isMasked(source, rules)) {
+        mask(source, clone, MASK_COLOR);
+        return clone;
+    }
+
+    if (tag === 'img') {
+        clone.removeAttribute('srcset');
+        const dataUrl = inlineImage(source as HTMLImageElement);
+        if (dataUrl) {
+            clone.setAttribute('src', dataUrl);
+        } else {
+            clone.removeAttribute('src');
+            mask(source, clone, PLACEHOLDER_COLOR);
+        }
+        return clone;
+    }
+
+    source.childNodes.forEach(child => {
+        const childClone = cloneNode(child, budget, rules);
+        if (childClone) clone.appendChild(childClone);
+    });
+    return clone;
+}
+
+/**
+ * Deep-clones an element with computed styles inlined and every form field or
+ * sensitive element replaced by a solid block. Exposed for testing.
+ */
+export function cloneForCapture(el: Element, maxNodes: number = DEFAULT_MAX_NODES, rules?: RedactionRules): HTMLElement | null {
+    return cloneNode(el, { remaining: maxNodes }, rules) as HTMLElement | null;
+}
+
+
+// --- Rasterizing ---
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const timer = setTimeout(() => reject(new Error('Screenshot timed out')), LOAD_TIMEOUT);
+        img.onload = () => { clearTimeout(timer); resolve(img); };
+        img.onerror = () => { clearTimeout(timer); reject(new Error('Screenshot could not be rendered')); };
+        img.src = src;
+    });
+}
+
+async function rasterize(content: HTMLElement, width: number, height: number, scale: number): Promise<string> {
+    const w = Math.max(1, Math.min(Math.round(width), MAX_DIMENSION));
+    const h = Math.max(1, Math.min(Math.round(height), MAX_DIMENSION));
+
+    const wrapper = document.createElementNS(XHTML_NS, 'div') as HTMLElement;
+    wrapper.style.cssText = `position:relative;width:${w}px;height:${h}px;overflow:hidden;`;
+    wrapper.appendChild(content);
+
+    const markup = new XMLSerializer().serializeToString(wrapper);
+    const svg = `<svg xmlns="${SVG_NS}" width="${w}" height="${h}"><foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`;
+    const img = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(w * scale);
+    canvas.height = Math.round(h * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+    ctx.scale(scale, scale);
+    ctx.drawImage(img, 0, 0);
+    return canvas.toDataURL('image/png');
+}
+
+function captureElement(el: Element, options: ScreenshotOptions, scale: number, rules?: RedactionRules): Promise<string> {
+    const rect = el.getBoundingClientRect();
+    const clone = cloneForCapture(el, options.maxNodes, rules);
+    if (!clone) throw new Error('Element could not be cloned');
+
+    // Detach the clone from its original layout position
+    clone.style.position = 'absolute';
+    clone.style.top = '0';
+    clone.style.left = '0';
+    clone.style.margin = '0';
+    clone.style.transform = 'none';
+    return rasterize(clone, rect.width, rect.height, scale);
+}
+
+function captureViewport(options: ScreenshotOptions, scale: number, rules?: RedactionRules): Promise<string> {
+    const clone = cloneForCapture(document.body, options.maxNodes, rules);
+    if (!clone) throw new Error('Page could not be cloned');
+
+    const offset = document.createElementNS(XHTML_NS, 'div') as HTMLElement;
+    offset.style.cssText = `position:absolute;top:${-window.scrollY}px;left:${-window.scrollX}px;width:${document.documentElement.scrollWidth}px;`;
+    offset.appendChild(clone);
+    return rasterize(offset, window.innerWidth, window.innerHeight, scale);
+}
+
+/**
+ * Captures the element (and optionally the viewport) as PNG data URLs, masked
+ * with `rules` (default: the page-wide ones). Failures are logged and leave the
+ * corresponding field empty.
+ */
+export async function captureScreenshot(el: Element | null, options: ScreenshotOptions = {}, rules?: RedactionRules): Promise<Screenshot> {
+    const scale = options.scale || Math.min(window.devicePixelRatio || 1, 2);
+    const result: Screenshot = {};
+
+    if (el) {
+        try {
+            result.element = await captureElement(el, options, scale, rules);
+        } catch (e) {
+            console.warn('[Tagtics] Element screenshot failed', e);
+        }
+    }
+    if (options.viewport || !el) {
+        try {
+            result.viewport = await captureViewport(options, scale, rules);
+        } catch (e) {
+            console.warn('[Tagtics] Viewport screenshot failed', e);
+        }
+    }
+    return result;
+}
@@ -0,0 +1,66 @@
+// --- Multi-Selection ---
+// A feedback item can point at several elements and drawn regions at once.
+
+import { getComposedParent, isHTMLElement, ViewportRect } from './dom';
+
+export type Selection =
+    | { type: 'element'; element: HTMLElement }
+    | { type: 'region'; rect: ViewportRect };
+
+// Smaller drags are treated as clicks
+export const DRAG_THRESHOLD = 6;
+
+// Touch: how long a press picks immediately, and how far a finger may drift before it's a scroll
+export const LONG_PRESS_MS = 500;
+export const TOUCH_SLOP = 10;
+
+export function rectFromPoints(a: { x: number; y: number }, b: { x: number; y: number }): ViewportRect {
+    return {
+        top: Math.min(a.y, b.y),
+        left: Math.min(a.x, b.x),
+        width: Math.abs(a.x - b.x),
+        height: Math.abs(a.y - b.y),
+    };
+}
+
+// Adds the selection, or removes it if that element is already selected
+export function toggleSelection(list: Selection[], selection: Selection): Selection[] {
+    if (selection.type === 'element' && list.some(s => s.type === 'element' && s.element === selection.element)) {
+        return list.filter(s => s.type !== 'element' || s.element !== selection.element);
+    }
+    return [...list, selection];
+}
+
+function getAncestors(el: Element): Element[] {
+    const chain: Element[] = [];
+    for (let curr: Element | null = el; curr; curr = getComposedParent(curr)) chain.push(curr);
+    return chain;
+}
+
+/**
+ * The deepest element covering the whole region, found by hit-testing its
+ * corners and center. Falls back to <body> where hit-testing is unavailable.
+ */
+export function getRegionContainer(rect: ViewportRect, ignore?: Element | null): HTMLElement {
+    if (typeof document.elementFromPoint !== 'function') return document.body;
+    const inset = 1;
+    const points = [
+        [rect.left + inset, rect.top + inset],
+        [rect.left + rect.width - inset, rect.top + inset],
+        [rect.left + inset, rect.top + rect.height - inset],
+        [rect.left + rect.width - inset, rect.top + rect.height - inset],
+        [rect.left + rect.width / 2, rect.top + rect.height / 2],
+    ];
+    const hits = points
+        .map(([x, y]) => document.elementFromPoint(x, y))
+        .filter((el): el is Element => !!el && el !== ignore);
+    if (!hits.length) return document.body;
+
+    let common = getAncestors(hits[0]);
+    hits.slice(1).forEach(hit => {
+        const chain = getAncestors(hit);
+        common = common.filter(el => chain.includes(el));
+    });
+    const container = common.find(isHTMLElement);
+    return container && container !== document.documentElement ? container : document.body;
+}
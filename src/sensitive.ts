@@ -0,0 +1,166 @@
+// --- Sensitive Page Detection ---
+// Scores a page on a few independent signals (URL keywords, payment providers,
+// card inputs, unknown cross-origin frames, selectors, a custom predicate) and
+// reports which ones fired, so false positives can be tuned instead of guessed.
+
+import { isCrossOrigin } from './dom';
+import { SENSITIVE_INPUT_PATTERNS } from './redaction';
+
+export type SensitiveSignal = 'keyword' | 'provider' | 'input' | 'iframe' | 'selector' | 'custom';
+
+export type SensitivePageOptions = {
+    // Strings match a whole path segment or subdomain label; RegExps are tested against the full URL
+    keywords?: { add?: (string | RegExp)[]; remove?: string[] };
+    // Hostnames of payment providers, matched with their subdomains in script and iframe src
+    providers?: { add?: string[]; remove?: string[] };
+    // Cross-origin frames from these origins ('https://www.youtube.com') or hostnames ('vimeo.com') are ignored
+    allowedFrameOrigins?: string[];
+    selectors?: string[]; // Any match counts, e.g. '#payment-form' or '[data-sensitive]'
+    // Return true, or a string describing why, to flag the page
+    predicate?: (location: Location) => boolean | string;
+    weights?: Partial<Record<SensitiveSignal, number>>;
+    threshold?: number; // Default 1
+};
+
+export type SensitiveReason = { signal: SensitiveSignal; weight: number; detail: string };
+
+export type SensitivePageResult = {
+    sensitive: boolean;
+    score: number; // Sum of the weights of every signal that fired, each counted once
+    threshold: number;
+    reasons: SensitiveReason[];
+};
+
+export const SENSITIVE_KEYWORDS = ['checkout', 'payment', 'pay', 'billing', 'order', 'purchase', 'invoice', 'subscribe'];
+export const PAYMENT_PROVIDERS = ['stripe.com', 'paypal.com', 'braintreepayments.com', 'square.com', 'adyen.com', 'razorpay.com'];
+
+// An unknown embed alone (video, chat, maps) shouldn't hide the widget
+const DEFAULT_WEIGHTS: Record<SensitiveSignal, number> = {
+    keyword: 1,
+    provider: 1,
+    input: 1,
+    iframe: 0.5,
+    selector: 1,
+    custom: 1,
+};
+const DEFAULT_THRESHOLD = 1;
+
+function withChanges<T>(defaults: T[], changes?: { add?: T[]; remove?: string[] }): T[] {
+    const removed = (changes?.remove || []).map(item => item.toLowerCase());
+    return defaults
+        .filter(item => typeof item !== 'string' || !removed.includes(item.toLowerCase()))
+        .concat(changes?.add || []);
+}
+
+function parseUrl(value: string): URL | null {
+    try {
+        return new URL(value, document.baseURI);
+    } catch (e) {
+        return null;
+    }
+}
+
+// '/orders-history' has the segment 'orders-history', which doesn't match 'order'
+function urlTokens(url: URL): string[] {
+    const hash = url.hash.replace(/^#!?/, '').split('?')[0];
+    const segments = `${url.pathname}/${hash}`.split('/');
+    const labels = url.hostname.split('.').slice(0, -2);
+    return segments.concat(labels)
+        .map(token => {
+            try {
+                return decodeURIComponent(token).toLowerCase();
+            } catch (e) {
+                return token.toLowerCase();
+            }
+        })
+        .filter(Boolean);
+}
+
+function matchesHost(hostname: string, host: string): boolean {
+    return hostname === host || hostname.endsWith(`.${host}`);
+}
+
+function findProvider(src: string, providers: string[]): string | null {
+    const url = src ? parseUrl(src) : null;
+    if (!url) return null;
+    return providers.find(provider => matchesHost(url.hostname, provider.toLowerCase())) || null;
+}
+
+function isAllowedFrame(src: string, allowed: string[]): boolean {
+    const url = src ? parseUrl(src) : null;
+    if (!url) return false;
+    return allowed.some(entry => entry.includes('://') ? url.origin === entry.replace(/\/+$/, '') : matchesHost(url.hostname, entry.toLowerCase()));
+}
+
+/**
+ * Scores the current page and returns every signal that fired. Detection reads
+ * `window.location.href`, so it works on whatever the router has navigated to.
+ */
+export function detectSensitivePage(options: SensitivePageOptions = {}): SensitivePageResult {
+    const weights = { ...DEFAULT_WEIGHTS, ...options.weights };
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    const reasons: SensitiveReason[] = [];
+    const add = (signal: SensitiveSignal, detail: string) => reasons.push({ signal, weight: weights[signal], detail });
+
+    // URL keywords
+    const href = window.location.href;
+    const url = parseUrl(href);
+    const tokens = url ? urlTokens(url) : [];
+    for (const keyword of withChanges<string | RegExp>(SENSITIVE_KEYWORDS, options.keywords)) {
+        if (typeof keyword === 'string' ? tokens.includes(keyword.toLowerCase()) : keyword.test(href)) {
+            add('keyword', String(keyword));
+        }
+    }
+
+    // Payment provider scripts and frames
+    const providers = withChanges(PAYMENT_PROVIDERS, options.providers);
+    const providerFrames = new Set<Element>();
+    document.querySelectorAll('script[src], iframe[src]').forEach(el => {
+        const provider = findProvider(el.getAttribute('src') || '', providers);
+        if (!provider) return;
+        if (el.tagName === 'IFRAME') providerFrames.add(el);
+        add('provider', `${el.tagName.toLowerCase()} from ${provider}`);
+    });
+
+    // Card and billing inputs
+    document.querySelectorAll('input, select, textarea').forEach(input => {
+        const hint = ['name', 'id', 'placeholder', 'aria-label']
+            .map(attr => input.getAttribute(attr) || '')
+            .find(value => SENSITIVE_INPUT_PATTERNS.test(value));
+        if (hint) add('input', `${input.tagName.toLowerCase()} "${hint}"`);
+    });
+
+    // Cross-origin frames nobody vouched for
+    const allowed = options.allowedFrameOrigins || [];
+    document.querySelectorAll('iframe').forEach(iframe => {
+        if (providerFrames.has(iframe) || !isCrossOrigin(iframe)) return;
+        const src = iframe.getAttribute('src') || '';
+        if (isAllowedFrame(src, allowed)) return;
+        add('iframe', parseUrl(src)?.origin || 'unknown origin');
+    });
+
+    for (const selector of options.selectors || []) {
+        try {
+            if (document.querySelector(selector)) add('selector', selector);
+        } catch (e) {
+            console.warn('[Tagtics] Invalid sensitivePages selector:', selector);
+        }
+    }
+
+    if (options.predicate) {
+        try {
+            const result = options.predicate(window.location);
+            if (result) add('custom', typeof result === 'string' ? result : 'predicate');
+        } catch (e) {
+            console.warn('[Tagtics] sensitivePages predicate threw:', e);
+        }
+    }
+
+    const fired = new Set(reasons.map(reason => reason.signal));
+    const score = Array.from(fired).reduce((sum, signal) => sum + weights[signal], 0);
+    return { sensitive: score >= threshold, score, threshold, reasons };
+}
+
+export function isLikelyPaymentPage(options?: SensitivePageOptions): boolean {
+    return detectSensitivePage(options).sensitive;
+}
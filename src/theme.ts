@@ -0,0 +1,143 @@
+// --- Theming ---
+// Every color, radius and font in the stylesheet reads a --tagtics-* custom
+// property. Host pages can override them on #tagtics-host; outer-document
+// rules win over the :host defaults declared here.
+
+export type ThemeMode = 'light' | 'dark' | 'auto';
+
+export type ThemeOptions = {
+    mode?: ThemeMode;
+    primary?: string; // Brand color (buttons, focus ring)
+    primaryEnd?: string; // Second gradient stop, defaults to primary
+    radius?: number | string; // Modal corner radius; smaller radii scale from it
+    fontFamily?: string;
+    variables?: Record<string, string>; // Any --tagtics-* property, with or without the prefix
+};
+
+export type LauncherCorner = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
+
+export type LauncherPosition = LauncherCorner | {
+    corner?: LauncherCorner;
+    offsetX?: number | string;
+    offsetY?: number | string;
+};
+
+const BASE_VARIABLES: Record<string, string> = {
+    'font': '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif',
+    'primary': '#6366f1',
+    'primary-end': '#8b5cf6',
+    'primary-shadow': 'rgba(99, 102, 241, 0.4)',
+    'on-primary': '#ffffff',
+    'radius': '20px',
+    'radius-sm': '12px',
+    'offset-x': '20px',
+    'offset-y': '20px',
+    'highlight': '#007bff',
+    'highlight-bg': 'rgba(0, 123, 255, 0.1)',
+    'success': '#22c55e',
+    'danger': '#ef4444',
+    'warning': '#f59e0b',
+};
+
+export const DARK_THEME: Record<string, string> = {
+    'color-scheme': 'dark',
+    'surface': 'rgba(23, 23, 23, 0.75)',
+    'surface-raised': 'rgba(30, 30, 30, 0.8)',
+    'surface-hover': 'rgba(50, 50, 50, 0.9)',
+    'surface-solid': 'rgba(20, 20, 20, 0.9)',
+    'border': 'rgba(255, 255, 255, 0.1)',
+    'border-strong': 'rgba(255, 255, 255, 0.2)',
+    'text': '#f3f3f3',
+    'text-muted': 'rgba(255, 255, 255, 0.4)',
+    'placeholder': 'rgba(255, 255, 255, 0.3)',
+    'input-bg': 'rgba(0, 0, 0, 0.2)',
+    'input-bg-focus': 'rgba(0, 0, 0, 0.3)',
+    'button-bg': 'rgba(255, 255, 255, 0.1)',
+    'button-bg-hover': 'rgba(255, 255, 255, 0.15)',
+    'accent-text': '#a5b4fc',
+    'accent-bg': 'rgba(99, 102, 241, 0.1)',
+    'accent-border': 'rgba(99, 102, 241, 0.2)',
+    'success-text': '#dcfce7',
+    'danger-text': '#fee2e2',
+    'shadow': 'rgba(0, 0, 0, 0.3)',
+};
+
+export const LIGHT_THEME: Record<string, string> = {
+    'color-scheme': 'light',
+    'surface': 'rgba(255, 255, 255, 0.85)',
+    'surface-raised': 'rgba(255, 255, 255, 0.95)',
+    'surface-hover': 'rgba(241, 245, 249, 1)',
+    'surface-solid': 'rgba(255, 255, 255, 0.97)',
+    'border': 'rgba(15, 23, 42, 0.1)',
+    'border-strong': 'rgba(15, 23, 42, 0.2)',
+    'text': '#0f172a',
+    'text-muted': 'rgba(15, 23, 42, 0.55)',
+    'placeholder': 'rgba(15, 23, 42, 0.4)',
+    'input-bg': 'rgba(15, 23, 42, 0.03)',
+    'input-bg-focus': '#ffffff',
+    'button-bg': 'rgba(15, 23, 42, 0.05)',
+    'button-bg-hover': 'rgba(15, 23, 42, 0.1)',
+    'accent-text': '#4338ca',
+    'accent-bg': 'rgba(99, 102, 241, 0.08)',
+    'accent-border': 'rgba(99, 102, 241, 0.25)',
+    'success-text': '#166534',
+    'danger-text': '#991b1b',
+    'shadow': 'rgba(15, 23, 42, 0.15)',
+};
+
+function toCssLength(value: number | string): string {
+    return typeof value === 'number' ? `${value}px` : value;
+}
+
+function declarations(vars: Record<string, string>): string {
+    return Object.keys(vars)
+        .map(name => `--tagtics-${name.replace(/^--tagtics-/, '')}: ${vars[name]};`)
+        .join(' ');
+}
+
+export function normalizeTheme(theme?: ThemeMode | ThemeOptions): ThemeOptions {
+    if (!theme) return { mode: 'dark' };
+    return typeof theme === 'string' ? { mode: theme } : { mode: 'dark', ...theme };
+}
+
+export function normalizePosition(position?: LauncherPosition): { corner: LauncherCorner; offsetX: string; offsetY: string } {
+    const options = typeof position === 'string' ? { corner: position } : position || {};
+    return {
+        corner: options.corner || 'bottom-right',
+        offsetX: toCssLength(options.offsetX ?? 20),
+        offsetY: toCssLength(options.offsetY ?? 20),
+    };
+}
+
+/**
+ * The :host custom properties for a theme and launcher position. 'auto'
+ * starts light and switches with prefers-color-scheme.
+ */
+export function createThemeCss(theme?: ThemeMode | ThemeOptions, position?: LauncherPosition): string {
+    const options = normalizeTheme(theme);
+    const { offsetX, offsetY } = normalizePosition(position);
+
+    const overrides: Record<string, string> = { 'offset-x': offsetX, 'offset-y': offsetY };
+    if (options.primary) {
+        overrides['primary'] = options.primary;
+        overrides['primary-end'] = options.primaryEnd || options.primary;
+        overrides['primary-shadow'] = 'rgba(0, 0, 0, 0.25)';
+    } else if (options.primaryEnd) {
+        overrides['primary-end'] = options.primaryEnd;
+    }
+    if (options.radius !== undefined) {
+        const radius = toCssLength(options.radius);
+        overrides['radius'] = radius;
+        overrides['radius-sm'] = `calc(${radius} * 0.6)`;
+    }
+    if (options.fontFamily) overrides['font'] = options.fontFamily;
+    Object.assign(overrides, options.variables);
+
+    const palette = options.mode === 'dark' ? DARK_THEME : LIGHT_THEME;
+    let css = `:host { ${declarations(BASE_VARIABLES)} ${declarations(palette)} }\n`;
+    if (options.mode === 'auto') {
+        css += `@media (prefers-color-scheme: dark) { :host { ${declarations(DARK_THEME)} } }\n`;
+    }
+    css += `:host { ${declarations(overrides)} }\n`;
+    return css;
+}
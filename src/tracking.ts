@@ -0,0 +1,143 @@
+// --- Highlight Tracking ---
+// Highlight boxes are position: fixed, so a single measurement drifts as soon
+// as the page scrolls, resizes or re-renders. The tracker re-measures every
+// tracked target at most once per frame after any of those.
+
+import { getComposedParent, getViewportRect } from './dom';
+
+// Delay between the steps of the parent → child animation
+export const ANCESTOR_STEP_MS = 120;
+const ANCESTOR_LEVELS = 2;
+
+export type HighlightTracker = {
+    // Keeps `box` over `target`, visiting `from` (outermost first) on the way in
+    track(box: HTMLElement, target: Element, from?: Element[]): void;
+    untrack(box: HTMLElement): void;
+    clear(): void;
+};
+
+type Entry = { target: Element; path: Element[]; timer?: ReturnType<typeof setTimeout> };
+
+// Up to two ancestors below <body>, outermost first; none when the user prefers reduced motion
+export function getAncestorPath(el: Element): Element[] {
+    if (window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) return [];
+    const path: Element[] = [];
+    for (let parent = getComposedParent(el); parent && path.length < ANCESTOR_LEVELS; parent = getComposedParent(parent)) {
+        if (parent.tagName === 'BODY' || parent.tagName === 'HTML') break;
+        path.unshift(parent);
+    }
+    return path;
+}
+
+function requestFrame(callback: () => void): () => void {
+    if (typeof requestAnimationFrame === 'function') {
+        const id = requestAnimationFrame(callback);
+        return () => cancelAnimationFrame(id);
+    }
+    const id = setTimeout(callback, 16);
+    return () => clearTimeout(id);
+}
+
+/**
+ * Boxes are hidden while their target is detached or has no size, and shown
+ * again if it comes back. Listeners only exist while something is tracked.
+ */
+export function createHighlightTracker(): HighlightTracker {
+    const entries = new Map<HTMLElement, Entry>();
+    const views = new Set<Window>();
+    let cancelFrame: (() => void) | null = null;
+
+    const place = (box: HTMLElement, entry: Entry) => {
+        const target = entry.path[0] || entry.target;
+        const rect = target.isConnected ? getViewportRect(target) : null;
+        if (!rect || (!rect.width && !rect.height)) {
+            box.style.display = 'none';
+            return;
+        }
+        box.style.display = 'block';
+        box.style.position = 'fixed';
+        box.style.top = `${rect.top}px`;
+        box.style.left = `${rect.left}px`;
+        box.style.width = `${rect.width}px`;
+        box.style.height = `${rect.height}px`;
+    };
+
+    const schedule = () => {
+        if (cancelFrame) return;
+        cancelFrame = requestFrame(() => {
+            cancelFrame = null;
+            entries.forEach((entry, box) => place(box, entry));
+        });
+    };
+
+    const resizeObserver = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(schedule) : null;
+    const mutationObserver = typeof MutationObserver !== 'undefined' ? new MutationObserver(schedule) : null;
+
+    // Scrolling inside a same-origin iframe moves its elements too
+    const watch = (view: Window) => {
+        if (views.has(view)) return;
+        views.add(view);
+        view.addEventListener('scroll', schedule, { capture: true, passive: true });
+        view.addEventListener('resize', schedule);
+        mutationObserver?.observe(view.document.documentElement, { childList: true, subtree: true, attributes: true, characterData: true });
+    };
+
+    const stop = () => {
+        views.forEach(view => {
+            view.removeEventListener('scroll', schedule, { capture: true });
+            view.removeEventListener('resize', schedule);
+        });
+        views.clear();
+        window.visualViewport?.removeEventListener('resize', schedule);
+        window.visualViewport?.removeEventListener('scroll', schedule);
+        resizeObserver?.disconnect();
+        mutationObserver?.disconnect();
+        cancelFrame?.();
+        cancelFrame = null;
+    };
+
+    const untrack = (box: HTMLElement) => {
+        const entry = entries.get(box);
+        if (!entry) return;
+        clearTimeout(entry.timer);
+        entries.delete(box);
+        if (!entries.size) {
+            stop();
+        } else if (!Array.from(entries.values()).some(other => other.target === entry.target)) {
+            resizeObserver?.unobserve(entry.target);
+        }
+    };
+
+    return {
+        track(box, target, from = []) {
+            const existing = entries.get(box);
+            // Re-rendering the same selection must not restart (or cut short) its animation
+            if (existing && existing.target === target && !from.length) return;
+            untrack(box);
+
+            if (!entries.size) {
+                window.visualViewport?.addEventListener('resize', schedule);
+                window.visualViewport?.addEventListener('scroll', schedule);
+                watch(window);
+            }
+            const view = target.ownerDocument.defaultView;
+            if (view) watch(view);
+            resizeObserver?.observe(target);
+
+            const entry: Entry = { target, path: [...from] };
+            entries.set(box, entry);
+            place(box, entry);
+
+            const step = () => {
+                entry.path.shift();
+                place(box, entry);
+                if (entry.path.length) entry.timer = setTimeout(step, ANCESTOR_STEP_MS);
+            };
+            if (entry.path.length) entry.timer = setTimeout(step, ANCESTOR_STEP_MS);
+        },
+        untrack,
+        clear() {
+            Array.from(entries.keys()).forEach(untrack);
+        },
+    };
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+import { getBreadcrumbs, startBreadcrumbs, stopBreadcrumbs, stripUrl } from '../src/breadcrumbs';
+import { createRedactionReport } from '../src/redaction';
+
+describe('breadcrumbs', () => {
+    afterEach(() => {
+        stopBreadcrumbs();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should record console warnings and errors in a bounded buffer', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        startBreadcrumbs({ maxEntries: 2 });
+
+        console.warn('first');
+        console.error('second', { code: 42 });
+        console.error(new TypeError('third'));
+        console.error('[Tagtics] internal');
+
+        expect(getBreadcrumbs().map(c => c.type === 'console' && c.message)).toEqual(['second {"code":42}', 'TypeError: third']);
+    });
+
+    it('should record failed requests without query strings', async () => {
+        vi.stubGlobal('fetch', vi.fn(async (url: string) => ({ ok: url.includes('healthy'), status: url.includes('healthy') ? 200 : 503 })));
+        startBreadcrumbs({}, url => url.includes('ignored'));
+
+        await fetch('/api/healthy');
+        await fetch('/api/orders?token=secret#top', { method: 'post' });
+        await fetch('/ignored');
+
+        const crumbs = getBreadcrumbs();
+        expect(crumbs).toHaveLength(1);
+        expect(crumbs[0]).toMatchObject({ type: 'network', method: 'POST', url: `${location.origin}/api/orders`, status: 503 });
+        expect(stripUrl('https://example.com/a/b?x=1')).toBe('https://example.com/a/b');
+    });
+
+    it('should record uncaught errors and scrub entries on read', () => {
+        startBreadcrumbs();
+        window.dispatchEvent(new ErrorEvent('error', { message: 'Failed for jane@example.com', filename: 'https://cdn.example.com/app.js?v=3', lineno: 10 }));
+
+        const report = createRedactionReport();
+        expect(getBreadcrumbs(report)[0]).toMatchObject({
+            type: 'error', message: 'Failed for [EMAIL]', source: 'https://cdn.example.com/app.js', line: 10,
+        });
+        expect(report.text.email).toBe(1);
+    });
+
+    it('should restore patched globals when stopped', () => {
+        const original = console.warn;
+        startBreadcrumbs();
+        expect(console.warn).not.toBe(original);
+        stopBreadcrumbs();
+        expect(console.warn).toBe(original);
+    });
+
+    it('should attach breadcrumbs to the payload', async () => {
+        const fetchMock = vi.fn(async () => ({ ok: true, status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true, breadcrumbs: { network: false } });
+
+        console.warn('Low stock');
+        await Tagtics.submit({ feedback: 'Checkout broke' });
+        Tagtics.destroy();
+
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.breadcrumbs).toEqual([expect.objectContaining({ type: 'console', level: 'warn', message: 'Low stock' })]);
+    });
+});
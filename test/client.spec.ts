@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics, { createTagtics, FeedbackPayload, TagticsClient } from '../src/index';
+
+describe('TagticsClient', () => {
+    const clients: TagticsClient[] = [];
+    const create = (config: Parameters<typeof createTagtics>[0]) => {
+        const client = createTagtics(config);
+        clients.push(client);
+        return client;
+    };
+    const hosts = () => document.querySelectorAll('#tagtics-host').length;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<main><button id="target">Buy</button></main>';
+        localStorage.clear();
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        clients.splice(0).forEach(client => client.destroy());
+        Tagtics.destroy();
+        vi.restoreAllMocks();
+    });
+
+    it('should replace the running instance when init() is called again', () => {
+        const pushState = history.pushState;
+        Tagtics.init({ apiKey: 'KEY' });
+        Tagtics.init({ apiKey: 'KEY' });
+        expect(hosts()).toBe(1);
+
+        Tagtics.destroy();
+        expect(hosts()).toBe(0);
+        expect(history.pushState).toBe(pushState);
+    });
+
+    it('should keep facade listeners across re-initialization', async () => {
+        const sent = vi.fn();
+        const transport = vi.fn(async () => ({ ok: true, status: 200 }));
+        Tagtics.on('sent', sent);
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true, transport });
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true, transport });
+
+        await Tagtics.submit({ feedback: 'hi' });
+        Tagtics.off('sent', sent);
+        expect(sent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should isolate listeners and teardown between instances', async () => {
+        const transport = vi.fn(async () => ({ ok: true, status: 200 }));
+        const first = create({ apiKey: 'A', hideLauncher: true, transport });
+        const second = create({ apiKey: 'B', hideLauncher: true, transport });
+        const onFirst = vi.fn();
+        const onSecond = vi.fn();
+        first.on('sent', onFirst);
+        second.on('sent', onSecond);
+
+        await second.submit({ feedback: 'hi', element: document.getElementById('target') });
+        expect(onFirst).not.toHaveBeenCalled();
+        expect(onSecond).toHaveBeenCalledTimes(1);
+
+        first.destroy();
+        expect(hosts()).toBe(1);
+        await expect(first.submit({ feedback: 'late' })).rejects.toThrow(/destroyed/);
+    });
+
+    it('should deliver and redact with each client\'s own config', async () => {
+        document.body.innerHTML = '<main><button id="target" data-secret="s3cr3t">Buy</button></main>';
+        const transportA = vi.fn(async () => ({ ok: true, status: 200 }));
+        const transportB = vi.fn(async () => ({ ok: true, status: 200 }));
+        const a = create({ apiKey: 'KEY', transport: transportA, redaction: { attributes: ['data-secret'] }, locale: 'de' });
+        const b = create({ apiKey: 'KEY', transport: transportB, locale: 'en' });
+        const element = document.getElementById('target');
+
+        expect(await a.submit({ feedback: 'first', element })).toBe('sent');
+        expect(await b.submit({ feedback: 'second', element })).toBe('sent');
+        const [[sentByA]] = transportA.mock.calls as unknown as [FeedbackPayload][];
+        const [[sentByB]] = transportB.mock.calls as unknown as [FeedbackPayload][];
+        expect(sentByA.selections[0].serialized.attributes['data-secret']).toBe('[REDACTED]');
+        expect(sentByB.selections[0].serialized.attributes['data-secret']).toBe('s3cr3t');
+        expect(Array.from(document.querySelectorAll('#tagtics-host')).map(host => host.getAttribute('lang'))).toEqual(['de', 'en']);
+
+        // The survivor keeps delivering through its own transport
+        b.destroy();
+        expect(await a.submit({ feedback: 'third', element })).toBe('sent');
+        expect(transportA).toHaveBeenCalledTimes(2);
+        expect(transportB).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hand page-wide recorders to the next client on destroy()', async () => {
+        const transport = vi.fn(async () => ({ ok: true, status: 200 }));
+        const a = create({ apiKey: 'A', hideLauncher: true, transport, breadcrumbs: true });
+        const b = create({ apiKey: 'B', hideLauncher: true });
+        b.destroy();
+
+        console.warn('still recording');
+        await a.submit({ feedback: 'hi' });
+        const [[payload]] = transport.mock.calls as unknown as [FeedbackPayload][];
+        expect(payload.breadcrumbs?.map(crumb => crumb.type === 'console' && crumb.message)).toContain('still recording');
+    });
+
+    it('should stop reacting to navigation after destroy()', () => {
+        const client = create({ apiKey: 'KEY', excludePaths: ['^/private'] });
+        history.pushState({}, '', '/private');
+        expect((document.getElementById('tagtics-host') as HTMLElement).style.display).toBe('none');
+
+        client.destroy();
+        history.pushState({}, '', '/');
+        expect(hosts()).toBe(0);
+    });
+
+    it('should require an api key', () => {
+        expect(() => createTagtics({ apiKey: '' })).toThrow(/apiKey is required/);
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+import { getDraftKey, getLatestDraft, saveDraft } from '../src/drafts';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('drafts', () => {
+    let attachShadow: ReturnType<typeof vi.spyOn>;
+    const root = () => attachShadow.mock.results[attachShadow.mock.results.length - 1].value as ShadowRoot;
+    const modalOpen = () => (root().querySelector('.tagtics-modal') as HTMLElement).style.display === 'flex';
+    const textarea = () => root().querySelector('textarea')!;
+    const type = (text: string) => {
+        textarea().value = text;
+        textarea().dispatchEvent(new Event('input', { bubbles: true }));
+    };
+    const pressEscape = () => document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+    beforeEach(() => {
+        document.body.innerHTML = '<main><button id="target" data-testid="buy">Buy</button></main>';
+        localStorage.clear();
+        sessionStorage.clear();
+        history.replaceState({}, '', '/');
+        attachShadow = vi.spyOn(HTMLElement.prototype, 'attachShadow');
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+        history.replaceState({}, '', '/');
+        vi.restoreAllMocks();
+    });
+
+    it('should restore page feedback and fields after a reload', () => {
+        Tagtics.init({ apiKey: 'KEY', form: { categories: true } });
+        (root().querySelector('.tagtics-fab-item') as HTMLElement).click();
+        type('The total is wrong');
+        (root().querySelector('[role="radio"]') as HTMLElement).click();
+
+        Tagtics.destroy();
+        Tagtics.init({ apiKey: 'KEY', form: { categories: true } });
+        expect(modalOpen()).toBe(true);
+        expect(textarea().value).toBe('The total is wrong');
+        expect(root().querySelector('[role="radio"]')!.getAttribute('aria-checked')).toBe('true');
+        expect(root().querySelector('.tagtics-draft-hint')!.classList.contains('visible')).toBe(true);
+    });
+
+    it('should re-select the element after a reload', async () => {
+        const transport = vi.fn(async () => ({ ok: true, status: 200 }));
+        Tagtics.init({ apiKey: 'KEY', transport });
+        (root().querySelectorAll('.tagtics-fab-item')[1] as HTMLElement).click();
+        await wait(60);
+        document.getElementById('target')!.click();
+        type('Button label is cut off');
+
+        Tagtics.destroy();
+        Tagtics.init({ apiKey: 'KEY', transport });
+        expect(modalOpen()).toBe(true);
+        expect(root().querySelector('.element-desc')!.textContent).toContain('button#target');
+        expect(textarea().value).toBe('Button label is cut off');
+
+        (root().querySelector('button.primary') as HTMLElement).click();
+        await wait(0);
+        expect(transport).toHaveBeenCalledTimes(1);
+        expect(getLatestDraft('/')).toBeNull();
+    });
+
+    it('should store drafts redacted like the payload', async () => {
+        document.body.innerHTML = '<main><button id="target">Mail jane@example.com</button></main>';
+        Tagtics.init({ apiKey: 'KEY', form: { email: true }, redaction: { text: ['email', { pattern: /ACC-\d+/, token: '[ACCOUNT]' }] } });
+        (root().querySelectorAll('.tagtics-fab-item')[1] as HTMLElement).click();
+        await wait(60);
+        document.getElementById('target')!.click();
+        const email = root().querySelector('input[type="email"]') as HTMLInputElement;
+        email.value = 'jane@example.com';
+        type('Account ACC-123, reach me at jane@example.com');
+
+        const stored = sessionStorage.getItem('tagtics:drafts')!;
+        expect(stored).not.toContain('jane@example.com');
+        expect(stored).not.toContain('ACC-123');
+        expect(getLatestDraft('/')).toMatchObject({ feedback: 'Account [ACCOUNT], reach me at [EMAIL]', fields: {} });
+    });
+
+    it('should not reopen a closed draft on navigation', () => {
+        Tagtics.init({ apiKey: 'KEY' });
+        (root().querySelector('.tagtics-fab-item') as HTMLElement).click();
+        type('Keep this for later');
+        pressEscape();
+
+        history.replaceState({}, '', '/?tab=2');
+        expect(modalOpen()).toBe(false);
+        history.pushState({}, '', '/elsewhere');
+        history.pushState({}, '', '/');
+        expect(modalOpen()).toBe(false);
+        Tagtics.destroy();
+        Tagtics.init({ apiKey: 'KEY' });
+        expect(modalOpen()).toBe(false);
+
+        // Still there when the user opens the modal themselves, and restored again after that
+        (root().querySelector('.tagtics-fab-item') as HTMLElement).click();
+        expect(textarea().value).toBe('Keep this for later');
+        Tagtics.destroy();
+        Tagtics.init({ apiKey: 'KEY' });
+        expect(modalOpen()).toBe(true);
+    });
+
+    it('should delete drafts that are emptied or discarded', () => {
+        Tagtics.init({ apiKey: 'KEY' });
+        (root().querySelector('.tagtics-fab-item') as HTMLElement).click();
+        type('temporary');
+        expect(getLatestDraft('/')).toMatchObject({ feedback: 'temporary', selections: [] });
+        type('');
+        expect(getLatestDraft('/')).toBeNull();
+
+        type('second thoughts');
+        Tagtics.destroy();
+        Tagtics.init({ apiKey: 'KEY' });
+        (root().querySelector('.tagtics-draft-hint button') as HTMLElement).click();
+        expect(textarea().value).toBe('');
+        expect(getLatestDraft('/')).toBeNull();
+    });
+
+    it('should expire drafts and honour the storage option', () => {
+        const draft = { path: '/pricing', feedback: 'old', selections: [], savedAt: Date.now() - 2 * 60000 };
+        saveDraft(draft, { storage: 'local' });
+        expect(sessionStorage.length).toBe(0);
+        expect(getLatestDraft('/pricing', { storage: 'local', maxAge: 5 })).toMatchObject({ feedback: 'old' });
+        expect(getLatestDraft('/pricing', { storage: 'local', maxAge: 1 })).toBeNull();
+        expect(getDraftKey('/pricing', [{ type: 'element', locators: { xpath: '//*[@id="buy"]' } }])).toBe('/pricing //*[@id="buy"]');
+    });
+
+    it('should not keep drafts when disabled or after reset()', () => {
+        Tagtics.init({ apiKey: 'KEY', drafts: false });
+        (root().querySelector('.tagtics-fab-item') as HTMLElement).click();
+        type('not saved');
+        expect(getLatestDraft('/')).toBeNull();
+
+        Tagtics.init({ apiKey: 'KEY' });
+        (root().querySelector('.tagtics-fab-item') as HTMLElement).click();
+        type('saved');
+        Tagtics.reset();
+        expect(getLatestDraft('/')).toBeNull();
+    });
+});
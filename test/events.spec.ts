@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { emit, off, on, removeAllListeners } from '../src/events';
+
+describe('events', () => {
+    afterEach(() => {
+        removeAllListeners();
+    });
+
+    it('should call registered handlers with event data', () => {
+        const handler = vi.fn();
+        on('open', handler);
+
+        emit('open', { mode: 'page' });
+        expect(handler).toHaveBeenCalledWith({ mode: 'page' });
+    });
+
+    it('should stop calling handlers after unsubscribe', () => {
+        const handler = vi.fn();
+        const unsubscribe = on('close', handler);
+        unsubscribe();
+        emit('close');
+
+        const other = vi.fn();
+        on('close', other);
+        off('close', other);
+        emit('close');
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(other).not.toHaveBeenCalled();
+    });
+
+    it('should let beforeSend listeners mutate or cancel the payload', () => {
+        const payload: Record<string, any> = { feedback: 'hi' };
+        on('beforeSend', p => { p.extra = true; });
+        expect(emit('beforeSend', payload)).toBe(true);
+        expect(payload.extra).toBe(true);
+
+        on('beforeSend', () => false);
+        expect(emit('beforeSend', payload)).toBe(false);
+    });
+
+    it('should isolate throwing handlers', () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const handler = vi.fn();
+        on('pick', () => { throw new Error('boom'); });
+        on('pick', handler);
+
+        expect(emit('pick')).toBe(true);
+        expect(handler).toHaveBeenCalled();
+        error.mockRestore();
+    });
+});
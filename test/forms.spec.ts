@@ -0,0 +1,74 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+import { renderForm, validateFields, FormConfig } from '../src/forms';
+
+const form: FormConfig = {
+    categories: true,
+    severity: ['minor', { value: 'major', label: 'Major' }],
+    rating: 'stars',
+    email: true,
+    required: ['category'],
+    fields: [
+        { type: 'select', name: 'plan', label: 'Plan', options: ['free', 'pro'] },
+        { type: 'text', name: 'order', label: 'Order', pattern: /^\d{6}$/ },
+        { type: 'checkbox', name: 'contact', label: 'Contact me', required: true },
+    ],
+};
+
+describe('feedback forms', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should accept valid answers', () => {
+        expect(validateFields({
+            category: 'bug', severity: 'major', rating: 4, email: 'jane@example.com',
+            custom: { plan: 'pro', order: '123456', contact: true },
+        }, form)).toEqual([]);
+    });
+
+    it('should report required and invalid fields', () => {
+        const errors = validateFields({
+            severity: 'blocker', rating: 7, email: 'jane@',
+            custom: { plan: 'enterprise', order: '12', contact: false },
+        }, form);
+
+        expect(errors.map(e => e.field)).toEqual(['category', 'severity', 'rating', 'email', 'plan', 'order', 'contact']);
+    });
+
+    it('should read answers from the rendered controls', () => {
+        const controller = renderForm(form);
+        const chips = controller.element.querySelectorAll<HTMLButtonElement>('[role="radio"]');
+        chips[0].click(); // bug
+        chips[4].click(); // major
+        chips[7].click(); // 3 stars
+        controller.element.querySelector<HTMLInputElement>('input[type="email"]')!.value = ' jane@example.com ';
+        controller.element.querySelector<HTMLInputElement>('input[type="checkbox"]')!.checked = true;
+
+        expect(controller.getValues()).toEqual({
+            category: 'bug', severity: 'major', rating: 3, email: 'jane@example.com',
+            custom: { contact: true },
+        });
+        expect(chips[6].classList.contains('filled')).toBe(true);
+        expect(chips[8].classList.contains('filled')).toBe(false);
+
+        controller.reset();
+        expect(controller.getValues()).toEqual({ custom: { contact: false } });
+    });
+
+    it('should send fields next to feedback and reject invalid ones', async () => {
+        const fetchMock = vi.fn(async () => ({ ok: true, status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true, form: { categories: true, required: ['category'] } });
+
+        await expect(Tagtics.submit({ feedback: 'Broken' })).rejects.toThrow('category');
+        await Tagtics.submit({ feedback: 'Broken', fields: { category: 'bug' } });
+
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.feedback).toBe('Broken');
+        expect(body.fields).toEqual({ category: 'bug' });
+        Tagtics.destroy();
+    });
+});
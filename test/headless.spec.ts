@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+
+describe('headless API', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<main><button id="target">Buy</button></main>';
+        localStorage.clear();
+        fetchMock = vi.fn(async () => ({ ok: true, status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true });
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should still mount the host when hideLauncher is set', () => {
+        expect(document.getElementById('tagtics-host')).not.toBeNull();
+    });
+
+    it('should resolve pick() with the clicked element', async () => {
+        const picked = Tagtics.pick();
+        await new Promise(r => setTimeout(r, 60));
+        document.getElementById('target')!.click();
+
+        const info = await picked;
+        expect(info.element.id).toBe('target');
+        expect(info.xpath).toBe('//*[@id="target"]');
+        expect(info.descriptor).toContain('button#target');
+    });
+
+    it('should reject pick() when cancelled with Escape', async () => {
+        const picked = Tagtics.pick();
+        await new Promise(r => setTimeout(r, 60));
+        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+        await expect(picked).rejects.toThrow('cancelled');
+    });
+
+    it('should pick with the keyboard', async () => {
+        const picked = Tagtics.pick();
+        await new Promise(r => setTimeout(r, 60));
+        const press = (key: string) => document.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+
+        press('ArrowDown'); // starts at <main>
+        press('ArrowDown'); // first child
+        press('Enter');
+
+        const info = await picked;
+        expect(info.element.id).toBe('target');
+    });
+
+    it('should submit element feedback through the transport', async () => {
+        const outcome = await Tagtics.submit({ feedback: 'Too small', element: document.getElementById('target') });
+
+        expect(outcome).toBe('sent');
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.feedback).toBe('Too small');
+        expect(body.selected.xpath).toBe('//*[@id="target"]');
+    });
+
+    it('should submit page feedback without a selection', async () => {
+        await Tagtics.submit({ feedback: 'Nice page' });
+
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.selected.tag).toBe('PAGE_FEEDBACK');
+    });
+});
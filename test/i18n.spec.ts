@@ -0,0 +1,54 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+import { configureLocale, getLocale, isRtl, resolveLocale, t } from '../src/i18n';
+
+describe('i18n', () => {
+    afterEach(() => {
+        configureLocale('en');
+        document.documentElement.lang = '';
+        vi.restoreAllMocks();
+    });
+
+    it('should match exact tags and fall back to the base language', () => {
+        expect(resolveLocale('de')).toBe('de');
+        expect(resolveLocale('fr-CA')).toBe('fr');
+        expect(resolveLocale('AR_eg')).toBe('ar');
+    });
+
+    it('should detect the locale from navigator.language, then <html lang>', () => {
+        vi.spyOn(navigator, 'language', 'get').mockReturnValue('es-MX');
+        expect(resolveLocale()).toBe('es');
+
+        vi.spyOn(navigator, 'language', 'get').mockReturnValue('xx');
+        document.documentElement.lang = 'he';
+        expect(resolveLocale()).toBe('he');
+        expect(resolveLocale('pl')).toBe('he');
+    });
+
+    it('should apply message overrides and interpolate parameters', () => {
+        configureLocale('de', { send: 'Abschicken' });
+
+        expect(t('send')).toBe('Abschicken');
+        expect(t('repick')).toBe('Neu auswählen');
+        expect(t('pickingFocus', { element: 'button#buy' })).toBe('button#buy. Enter zum Auswählen.');
+    });
+
+    it('should accept a locale without a bundle when its strings are supplied', () => {
+        configureLocale('fa', { send: 'ارسال' });
+
+        expect(getLocale()).toBe('fa');
+        expect(isRtl()).toBe(true);
+        expect(t('send')).toBe('ارسال');
+        expect(t('repick')).toBe('Re-pick');
+    });
+
+    it('should mark the host element with lang and dir', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        Tagtics.init({ apiKey: 'KEY', locale: 'ar-SA' });
+
+        const host = document.getElementById('tagtics-host')!;
+        expect(host.lang).toBe('ar');
+        expect(host.dir).toBe('rtl');
+        Tagtics.destroy();
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+import { getContext, getUser } from '../src/identity';
+
+describe('identity and context', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        sessionStorage.clear();
+        fetchMock = vi.fn(async () => ({ ok: true, status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true, release: '2.4.1', environment: 'staging' });
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    const lastBody = () => JSON.parse(fetchMock.mock.calls[fetchMock.mock.calls.length - 1][1].body);
+
+    it('should merge user, context, release and environment into the payload', async () => {
+        Tagtics.identify({ id: 'u_1', email: 'jane@example.com', traits: { plan: 'pro' } });
+        Tagtics.setContext('tenant', 'acme');
+        Tagtics.setContext('flags', ['new-checkout']);
+
+        await Tagtics.submit({ feedback: 'Hi' });
+        expect(lastBody()).toMatchObject({
+            user: { id: 'u_1', email: 'jane@example.com', traits: { plan: 'pro' } },
+            context: { tenant: 'acme', flags: ['new-checkout'] },
+            release: '2.4.1',
+            environment: 'staging',
+        });
+    });
+
+    it('should persist for the session and remove context keys set to undefined', () => {
+        Tagtics.identify({ id: 'u_2' });
+        Tagtics.setContext('tenant', 'acme');
+        Tagtics.setContext('tenant', undefined);
+
+        expect(JSON.parse(sessionStorage.getItem('tagtics:identity')!).user.id).toBe('u_2');
+        expect(getContext()).toEqual({});
+    });
+
+    it('should ignore identify() without an id', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        Tagtics.identify({ id: '' });
+
+        expect(getUser()).toBeNull();
+        expect(warn).toHaveBeenCalled();
+    });
+
+    it('should forget everything on reset()', async () => {
+        Tagtics.identify({ id: 'u_3' });
+        Tagtics.setContext('tenant', 'acme');
+        Tagtics.reset();
+
+        await Tagtics.submit({ feedback: 'Anonymous' });
+        expect(lastBody().user).toBeUndefined();
+        expect(lastBody().context).toBeUndefined();
+        expect(lastBody().release).toBe('2.4.1');
+    });
+
+    it('should forget the identity on reset() without a running client', () => {
+        Tagtics.destroy();
+        Tagtics.identify({ id: 'u_4' });
+        Tagtics.reset();
+
+        expect(getUser()).toBeNull();
+        expect(sessionStorage.getItem('tagtics:identity')).toBeNull();
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { getLocators, getUniqueSelector, locateElement } from '../src/locators';
+
+describe('locators', () => {
+    afterEach(() => {
+        document.body.innerHTML = '';
+    });
+
+    it('should build a unique css selector without ids', () => {
+        document.body.innerHTML = '<ul class="menu"><li>One</li><li>Two</li></ul><ul><li>Three</li></ul>';
+        const second = document.querySelectorAll('li')[1];
+
+        const selector = getUniqueSelector(second);
+        expect(document.querySelectorAll(selector)).toHaveLength(1);
+        expect(document.querySelector(selector)).toBe(second);
+    });
+
+    it('should skip generated class names', () => {
+        document.body.innerHTML = '<div class="card css-1x2y3z"><span>Hi</span></div>';
+        const selector = getUniqueSelector(document.querySelector('.card')!);
+        expect(selector).not.toContain('css-1x2y3z');
+    });
+
+    it('should collect test id, role and text locators', () => {
+        document.body.innerHTML = '<button data-testid="save-btn" aria-label="Save draft">Save</button>';
+        const bundle = getLocators(document.querySelector('button')!);
+
+        expect(bundle.testId).toEqual({ attr: 'data-testid', value: 'save-btn' });
+        expect(bundle.role).toEqual({ role: 'button', name: 'Save draft' });
+        expect(bundle.text).toEqual({ tag: 'button', text: 'Save' });
+        expect(bundle.xpath).toBeTruthy();
+    });
+
+    it('should prefer the test id when re-locating', () => {
+        document.body.innerHTML = '<button data-testid="save-btn">Save</button>';
+        const bundle = getLocators(document.querySelector('button')!);
+
+        const result = locateElement(bundle);
+        expect(result?.strategy).toBe('testId');
+        expect(result?.element).toBe(document.querySelector('button'));
+    });
+
+    it('should fall back to later strategies after the DOM changes', () => {
+        document.body.innerHTML = '<section><p>Intro</p><a href="/pricing">See pricing</a></section>';
+        const bundle = getLocators(document.querySelector('a')!);
+
+        // Restructure the page: the positional selectors no longer match
+        document.body.innerHTML = '<header><nav><a href="/">Home</a><a href="/pricing">See pricing</a></nav></header>';
+        const result = locateElement(bundle);
+
+        expect(result?.strategy).toBe('role');
+        expect(result?.element).toBe(document.querySelectorAll('a')[1]);
+    });
+
+    it('should return null when nothing matches', () => {
+        document.body.innerHTML = '<p id="gone">Bye</p>';
+        const bundle = getLocators(document.getElementById('gone')!);
+        document.body.innerHTML = '';
+
+        expect(locateElement(bundle)).toBeNull();
+    });
+});
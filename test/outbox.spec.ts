@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { attemptDelivery, enqueue, flushOutbox, getPendingCount, getRetryDelay, startOutbox, stopOutbox } from '../src/outbox';
+
+const stored = () => JSON.parse(localStorage.getItem('tagtics:outbox') || '[]');
+
+describe('outbox', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    afterEach(() => {
+        stopOutbox();
+        vi.useRealTimers();
+    });
+
+    it('should persist entries before delivery', async () => {
+        await enqueue('https://example.com/feedback', { feedback: 'hello' }, 'a');
+        expect(stored()).toHaveLength(1);
+        expect(JSON.parse(stored()[0].body).feedback).toBe('hello');
+    });
+
+    it('should remove entries once delivered', async () => {
+        await startOutbox(async () => ({ ok: true, status: 200 }));
+        const entry = await enqueue('https://example.com/feedback', { feedback: 'hello' });
+
+        expect(await attemptDelivery(entry)).toBe('sent');
+        expect(stored()).toHaveLength(0);
+        expect(getPendingCount()).toBe(0);
+    });
+
+    it('should keep entries for retry on server and network errors', async () => {
+        vi.useFakeTimers();
+        await startOutbox(async () => ({ ok: false, status: 503 }));
+        const entry = await enqueue('https://example.com/feedback', { feedback: 'hello' });
+
+        expect(await attemptDelivery(entry)).toBe('retry');
+        expect(stored()[0].attempts).toBe(1);
+        expect(stored()[0].nextAttemptAt).toBeGreaterThan(Date.now());
+    });
+
+    it('should drop entries rejected with a client error', async () => {
+        await startOutbox(async () => ({ ok: false, status: 400 }));
+        const entry = await enqueue('https://example.com/feedback', { feedback: 'hello' });
+
+        expect(await attemptDelivery(entry)).toBe('dropped');
+        expect(stored()).toHaveLength(0);
+    });
+
+    it('should flush queued entries left over from a previous session', async () => {
+        await enqueue('https://example.com/feedback', { feedback: 'old' }, 'old');
+        stopOutbox();
+
+        const send = vi.fn(async () => ({ ok: true, status: 200 }));
+        await startOutbox(send);
+        await flushOutbox();
+
+        expect(send).toHaveBeenCalledTimes(1);
+        expect(stored()).toHaveLength(0);
+    });
+
+    it('should not resend entries delivered while a flush is running', async () => {
+        await enqueue('https://example.com/feedback', { feedback: 'first' }, 'first');
+        const second = await enqueue('https://example.com/feedback', { feedback: 'second' }, 'second');
+        stopOutbox();
+
+        // A submission from the modal delivers `second` while the flush is busy with `first`
+        const send = vi.fn(async (entry: { id: string }) => {
+            if (entry.id === 'first') await attemptDelivery(second);
+            return { ok: true, status: 200 };
+        });
+        await startOutbox(send);
+
+        expect(send.mock.calls.map(([entry]) => entry.id)).toEqual(['first', 'second']);
+        expect(stored()).toHaveLength(0);
+    });
+
+    it('should deliver entries through the sender of the client that queued them', async () => {
+        const sendA = vi.fn(async () => ({ ok: true, status: 200 }));
+        const sendB = vi.fn(async () => ({ ok: true, status: 200 }));
+        await startOutbox(sendA, { apiKey: 'KEY', owner: 'a' });
+        await startOutbox(sendB, { apiKey: 'OTHER', owner: 'b' });
+
+        expect(await attemptDelivery(await enqueue('https://example.com/feedback', { feedback: 'from a' }, 'first', 'a'))).toBe('sent');
+        stopOutbox('b');
+        expect(await attemptDelivery(await enqueue('https://example.com/feedback', { feedback: 'from a' }, 'second', 'a'))).toBe('sent');
+        expect(sendA).toHaveBeenCalledTimes(2);
+        expect(sendB).not.toHaveBeenCalled();
+
+        // A destroyed client's entries wait for one with the same key
+        await startOutbox(sendB, { apiKey: 'OTHER', owner: 'b' });
+        const orphan = await enqueue('https://example.com/feedback', { feedback: 'late' }, 'third', 'a');
+        stopOutbox('a');
+        expect(await attemptDelivery(orphan)).toBe('retry');
+        await startOutbox(sendA, { apiKey: 'KEY', owner: 'a2' });
+        expect(sendA).toHaveBeenCalledTimes(3);
+        expect(sendB).not.toHaveBeenCalled();
+        expect(stored()).toHaveLength(0);
+    });
+
+    it('should add the api key to beacon URLs on pagehide', async () => {
+        const sendBeacon = vi.fn(() => true);
+        Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+        await startOutbox(async () => ({ ok: false, status: 503 }), { apiKey: 'KEY' });
+        await enqueue('http://localhost:3000/tagtics/feedback', { feedback: 'leaving' });
+
+        window.dispatchEvent(new Event('pagehide'));
+        expect(sendBeacon).toHaveBeenCalledWith('http://localhost:3000/tagtics/feedback?key=KEY', expect.any(Blob));
+        expect(getPendingCount()).toBe(0);
+        delete (navigator as any).sendBeacon;
+    });
+
+    it('should back off exponentially up to a cap', () => {
+        expect(getRetryDelay(1)).toBe(2000);
+        expect(getRetryDelay(2)).toBe(4000);
+        expect(getRetryDelay(3)).toBe(8000);
+        expect(getRetryDelay(20)).toBe(5 * 60 * 1000);
+    });
+});
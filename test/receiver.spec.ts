@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Inbox, parseDate } from '../server/inbox.js';
+import { requireApiKey } from '../server/auth.js';
+
+const payload = (overrides: Record<string, any> = {}) => ({
+    schemaVersion: 2 as const,
+    submissionId: 'a',
+    feedback: 'Broken',
+    pageUrl: 'http://localhost:3000/checkout/cart',
+    path: '/checkout/cart',
+    timestamp: Date.parse('2024-05-01T10:00:00Z'),
+    clientMeta: { ua: 'test', viewport: { width: 1024, height: 768 } },
+    selected: { tag: 'PAGE_FEEDBACK' as const },
+    selections: [],
+    hasEmbeds: false,
+    embedHostnames: [],
+    redactions: { maskedElements: 0, attributes: 0, text: {} },
+    ...overrides,
+});
+
+describe('receiver inbox', () => {
+    let dir: string;
+    let file: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tagtics-inbox-'));
+        file = path.join(dir, 'nested', 'feedback.jsonl');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should persist submissions as JSON lines and ignore duplicates', () => {
+        const inbox = new Inbox(file);
+        expect(inbox.add(payload())).toBe(true);
+        expect(inbox.add(payload())).toBe(false);
+
+        fs.appendFileSync(file, '{"truncated":');
+        const reloaded = new Inbox(file);
+        expect(reloaded.get('a')?.feedback).toBe('Broken');
+        expect(reloaded.list().total).toBe(1);
+    });
+
+    it('should filter by path and date, newest first', () => {
+        const inbox = new Inbox(file);
+        inbox.add(payload({ submissionId: 'a' }));
+        inbox.add(payload({ submissionId: 'b', path: '/checkout/pay', timestamp: Date.parse('2024-05-03T10:00:00Z') }));
+        inbox.add(payload({ submissionId: 'c', path: '/home', timestamp: Date.parse('2024-05-02T10:00:00Z') }));
+
+        const ids = (filter: Parameters<Inbox['list']>[0]) => inbox.list(filter).items.map(item => item.submissionId);
+        expect(ids({})).toEqual(['b', 'c', 'a']);
+        expect(ids({ path: '/home' })).toEqual(['c']);
+        expect(ids({ path: '/checkout*' })).toEqual(['b', 'a']);
+        expect(ids({ from: parseDate('2024-05-02'), to: parseDate('2024-05-02', true) })).toEqual(['c']);
+    });
+
+    it('should upgrade lines written by older clients on load', () => {
+        const { schemaVersion, submissionId, selections, redactions, ...legacy } = payload();
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, JSON.stringify(legacy) + '\n');
+
+        const [item] = new Inbox(file).list().items;
+        expect(item.schemaVersion).toBe(2);
+        expect(item.submissionId).toMatch(/^v1-/);
+        expect(item.selections).toEqual([]);
+    });
+});
+
+describe('receiver API key', () => {
+    const check = (middleware: ReturnType<typeof requireApiKey>, headers: Record<string, string>, query: Record<string, string> = {}) => {
+        const next = vi.fn();
+        const res = { status: vi.fn(() => res), json: vi.fn(() => res) };
+        middleware({ headers, query } as any, res as any, next);
+        return next.mock.calls.length ? 'allowed' : res.status.mock.calls[0][0];
+    };
+
+    it('should accept the key from the header or, for beacons, the query', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const middleware = requireApiKey('KEY');
+        expect(check(middleware, { 'x-api-key': 'KEY' })).toBe('allowed');
+        expect(check(middleware, {}, { key: 'KEY' })).toBe('allowed');
+        expect(check(middleware, { 'x-api-key': 'WRONG' })).toBe(401);
+        expect(check(middleware, { 'sec-fetch-site': 'same-origin' })).toBe(401);
+        vi.restoreAllMocks();
+    });
+
+    it('should let only the inbox itself read stored feedback without a key', () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const middleware = requireApiKey('KEY', { allowSameOrigin: true });
+        expect(check(middleware, { 'sec-fetch-site': 'same-origin' })).toBe('allowed');
+        expect(check(middleware, { 'sec-fetch-site': 'cross-site', origin: 'https://evil.example' })).toBe(401);
+        vi.restoreAllMocks();
+    });
+});
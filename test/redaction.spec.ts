@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { configureRedaction, createRedactionReport, isMasked, isRedactedAttribute, scrubText } from '../src/redaction';
+import { serializeElement } from '../src/index';
+
+describe('redaction', () => {
+    afterEach(() => {
+        configureRedaction();
+        document.body.innerHTML = '';
+    });
+
+    it('should replace built-in text patterns with tokens', () => {
+        const report = createRedactionReport();
+        const result = scrubText('Mail jane.doe@example.com or call +1 415 555 0132, IBAN DE89 3704 0044 0532 0130 00', report);
+
+        expect(result).toBe('Mail [EMAIL] or call [PHONE], IBAN [IBAN]');
+        expect(report.text).toEqual({ email: 1, phone: 1, iban: 1 });
+    });
+
+    it('should not touch ordinary numbers', () => {
+        expect(scrubText('Total: 1,299 items on 2024-05-01')).toBe('Total: 1,299 items on 2024-05-01');
+    });
+
+    it('should apply custom text rules instead of the defaults', () => {
+        configureRedaction({ text: [{ pattern: /ACC-\d+/, token: '[ACCOUNT]', name: 'account' }] });
+        const report = createRedactionReport();
+
+        expect(scrubText('ACC-12345 jane@example.com', report)).toBe('[ACCOUNT] jane@example.com');
+        expect(report.text).toEqual({ account: 1 });
+    });
+
+    it('should match extra attribute patterns', () => {
+        configureRedaction({ attributes: ['customer', /^data-user-/] });
+
+        expect(isRedactedAttribute('data-customer-id')).toBe(true);
+        expect(isRedactedAttribute('data-user-name')).toBe(true);
+        expect(isRedactedAttribute('data-password')).toBe(true);
+        expect(isRedactedAttribute('class')).toBe(false);
+    });
+
+    it('should mask subtrees by attribute or configured selector', () => {
+        configureRedaction({ selectors: ['.account-panel'] });
+        document.body.innerHTML = '<div class="account-panel"><span id="a">x</span></div><div data-tagtics-mask><b id="b">y</b></div><p id="c">z</p>';
+
+        expect(isMasked(document.getElementById('a')!)).toBe(true);
+        expect(isMasked(document.getElementById('b')!)).toBe(true);
+        expect(isMasked(document.getElementById('c')!)).toBe(false);
+    });
+
+    it('should summarize what the serializer redacted', () => {
+        document.body.innerHTML = '<div title="jane@example.com"><p>Call 415-555-0132</p><section data-tagtics-mask><span>secret</span></section></div>';
+        const report = createRedactionReport();
+
+        const result = serializeElement(document.querySelector('div')!, 1, 0, report);
+
+        expect(result.attributes.title).toBe('[EMAIL]');
+        expect(result.children[0].text).toBe('Call [PHONE]');
+        expect(result.children[1].masked).toBe(true);
+        expect(result.children[1].children).toHaveLength(0);
+        expect(report).toEqual({ maskedElements: 1, attributes: 0, text: { email: 1, phone: 1 } });
+    });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics, { FeedbackPayload, ReplayEvent, ReplayNode, validatePayload } from '../src/index';
+import { clearReplay, getReplay, startReplay, stopReplay } from '../src/replay';
+import { configureRedaction, createRedactionReport } from '../src/redaction';
+
+// Minimal player: rebuilds <body> from the events, the way server/player.ts does
+function rebuildBody(events: ReplayEvent[]): string {
+    const nodes = new Map<number, Node>();
+    const build = (node: ReplayNode): Node => {
+        const built = node.type === 'text' ? document.createTextNode(node.text) : document.createElement(node.tag);
+        if (node.type === 'element') {
+            Object.entries(node.attributes).forEach(([name, value]) => (built as Element).setAttribute(name, value));
+            node.children.forEach(child => built.appendChild(build(child)));
+        }
+        nodes.set(node.id, built);
+        return built;
+    };
+    let body: Element | null = null;
+    events.forEach(event => {
+        if (event.type === 'snapshot') body = (build(event.root) as Element).querySelector('body');
+        if (event.type !== 'mutation') return;
+        event.removes.forEach(id => (nodes.get(id) as ChildNode | undefined)?.remove());
+        event.adds.forEach(({ parentId, beforeId, node }) => {
+            nodes.get(parentId)!.insertBefore(build(node), beforeId === null ? null : nodes.get(beforeId)!);
+        });
+        event.attributes.forEach(({ id, name, value }) => {
+            const el = nodes.get(id) as Element;
+            if (value === null) el.removeAttribute(name);
+            else el.setAttribute(name, value);
+        });
+        event.texts.forEach(({ id, text }) => { nodes.get(id)!.textContent = text; });
+    });
+    return body!.innerHTML;
+}
+
+describe('session replay', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '<ul id="list"><li>one</li><li>three</li></ul><p id="status">idle</p>';
+    });
+
+    afterEach(() => {
+        stopReplay();
+        configureRedaction();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('should rebuild the current page from the snapshot and mutations', () => {
+        startReplay();
+        const list = document.getElementById('list')!;
+        const [one, three] = Array.from(list.children);
+        const two = document.createElement('li');
+        two.textContent = 'two';
+        list.insertBefore(two, three);
+        list.appendChild(one);
+        document.getElementById('status')!.setAttribute('class', 'busy');
+        document.getElementById('status')!.firstChild!.textContent = 'loading';
+        document.body.insertAdjacentHTML('beforeend', '<script>alert(1)</script><div onclick="x()">new</div>');
+
+        const replay = getReplay()!;
+        expect(replay.events.map(event => event.type)).toEqual(['snapshot', 'mutation']);
+        expect(rebuildBody(replay.events)).toBe(document.body.innerHTML.replace('<script>alert(1)</script>', '').replace(' onclick="x()"', ''));
+    });
+
+    it('should leave out masked content, form values and the widget', () => {
+        document.body.innerHTML = `
+            <div id="tagtics-host"><span>widget</span></div>
+            <div data-tagtics-mask class="card"><span>4242 4242 4242 4242</span></div>
+            <input name="email" value="jane@example.com"><textarea>draft</textarea>
+            <p data-password="hunter2">Mail jane@example.com</p>`;
+        startReplay({}, el => el.id === 'tagtics-host');
+
+        const report = createRedactionReport();
+        const json = JSON.stringify(getReplay(report));
+        ['widget', '4242', 'jane@example.com', 'draft', 'hunter2'].forEach(secret => expect(json).not.toContain(secret));
+        expect(json).toContain('Mail [EMAIL]');
+        expect(json).toContain('"masked":true');
+        expect(report).toMatchObject({ maskedElements: 1, attributes: 1, text: { email: 1 } });
+    });
+
+    it('should record clicks, scrolls, resizes and route changes', () => {
+        vi.useFakeTimers();
+        startReplay();
+        document.getElementById('status')!.dispatchEvent(new MouseEvent('click', { bubbles: true, clientX: 10, clientY: 20 }));
+        document.dispatchEvent(new Event('scroll'));
+        window.dispatchEvent(new Event('resize'));
+        vi.advanceTimersByTime(100);
+        history.pushState({}, '', '/next?token=secret');
+
+        const types = getReplay()!.events.map(event => event.type);
+        expect(types).toEqual(['snapshot', 'click', 'scroll', 'viewport', 'route']);
+        expect(getReplay()!.events[1]).toMatchObject({ x: 10, y: 20, id: expect.any(Number) });
+        expect(getReplay()!.events[4]).toMatchObject({ url: `${location.origin}/next` });
+        history.replaceState({}, '', '/');
+    });
+
+    it('should keep at least the configured window, starting from a snapshot', () => {
+        vi.useFakeTimers();
+        startReplay({ seconds: 10 });
+        const status = document.getElementById('status')!;
+        for (let second = 1; second <= 25; second++) {
+            status.setAttribute('data-second', String(second));
+            vi.advanceTimersByTime(1000);
+        }
+
+        const replay = getReplay()!;
+        expect(replay.events[0].type).toBe('snapshot');
+        expect(replay.endedAt - replay.startedAt).toBeGreaterThanOrEqual(10000);
+        expect(replay.endedAt - replay.startedAt).toBeLessThan(20000);
+
+        clearReplay();
+        expect(getReplay()!.events.map(event => event.type)).toEqual(['snapshot']);
+    });
+
+    it('should start at a later snapshot, or leave the events out, to stay under maxBytes', async () => {
+        vi.useFakeTimers();
+        startReplay({ seconds: 10, maxBytes: 4000 });
+        const status = document.getElementById('status')!;
+        // Each change is recorded before the next one replaces it
+        const change = async (text: string, ms: number) => {
+            status.textContent = text;
+            await Promise.resolve();
+            vi.advanceTimersByTime(ms);
+        };
+        await change('x'.repeat(5000), 4000);
+        await change('done', 8000);
+
+        const trimmed = getReplay()!;
+        expect(trimmed.trimmed).toBe(true);
+        expect(trimmed.events[0].type).toBe('snapshot');
+        expect(JSON.stringify(trimmed).length).toBeLessThan(4000);
+
+        await change('y'.repeat(5000), 10000);
+        const omitted = getReplay()!;
+        expect(omitted.events).toEqual([]);
+        expect(omitted.omitted!.maxBytes).toBe(4000);
+        expect(omitted.omitted!.bytes).toBeGreaterThan(4000);
+    });
+
+    it('should attach a valid replay to payloads when enabled', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        const transport = vi.fn(async () => ({ ok: true, status: 200 }));
+        Tagtics.init({ apiKey: 'KEY', transport, replay: { seconds: 30 } });
+        document.getElementById('status')!.textContent = 'broken';
+
+        await Tagtics.submit({ feedback: 'it broke' });
+        Tagtics.destroy();
+
+        const [[payload]] = transport.mock.calls as unknown as [FeedbackPayload][];
+        expect(validatePayload(payload)).toEqual([]);
+        expect(rebuildBody(payload.replay!.events)).toContain('broken');
+        expect(JSON.stringify(payload.replay)).not.toContain('tagtics-host');
+        expect(getReplay()).toBeUndefined();
+    });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics, { FeedbackPayload, PayloadSelection, validatePayload } from '../src/index';
+import { groupThreads } from '../src/review';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function item(submissionId: string, timestamp: number, overrides: Partial<FeedbackPayload> = {}): FeedbackPayload {
+    return {
+        schemaVersion: 2, submissionId, feedback: `feedback ${submissionId}`, pageUrl: 'http://localhost/', path: '/', timestamp,
+        clientMeta: { ua: 'test', viewport: { width: 800, height: 600 } },
+        selected: { tag: 'PAGE_FEEDBACK' }, selections: [],
+        hasEmbeds: false, embedHostnames: [], redactions: { maskedElements: 0, attributes: 0, text: {} },
+        ...overrides,
+    };
+}
+
+function on(xpath: string): Partial<FeedbackPayload> {
+    const selection: PayloadSelection = {
+        type: 'element', xpath, tag: 'button', descriptor: 'button', locators: { xpath },
+        serialized: { tag: 'button', attributes: {}, text: '', styles: {}, children: [] }, ancestors: [], rect: null,
+    };
+    return { selections: [selection] };
+}
+
+describe('review overlay', () => {
+    let attachShadow: ReturnType<typeof vi.spyOn>;
+    const root = () => attachShadow.mock.results[attachShadow.mock.results.length - 1].value as ShadowRoot;
+    const pins = () => Array.from(root().querySelectorAll('.tagtics-pin')) as HTMLElement[];
+
+    const existing = [
+        item('a', 1, on('//*[@id="buy"]')),
+        item('b', 2),
+        item('c', 3, on('//*[@id="gone"]')),
+        item('d', 4, on('//*[@id="total"]')),
+        item('r1', 5, { replyTo: 'a', feedback: 'Same here' }),
+        item('v1', 6, { replyTo: 'a', feedback: '', upvote: true }),
+    ];
+
+    beforeEach(() => {
+        document.body.innerHTML = '<main><button id="buy">Buy</button><p id="total">$10</p></main>';
+        attachShadow = vi.spyOn(HTMLElement.prototype, 'attachShadow');
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should group replies and +1s under the feedback they answer', () => {
+        const threads = groupThreads([...existing, item('x', 0, { path: '/other' })].reverse(), '/');
+        expect(threads.map(thread => thread.item.submissionId)).toEqual(['a', 'b', 'c', 'd']);
+        expect(threads[0].replies.map(reply => reply.feedback)).toEqual(['Same here']);
+        expect(threads[0].votes).toBe(1);
+    });
+
+    it('should pin located elements, numbered without gaps', async () => {
+        const source = vi.fn(async () => existing);
+        Tagtics.init({ apiKey: 'KEY', review: { source } });
+        await wait(0);
+
+        expect(source).toHaveBeenCalledWith('/');
+        // Page feedback and elements that no longer exist get no pin
+        expect(pins().map(pin => pin.textContent)).toEqual(['1', '2']);
+        expect(pins()[0].getAttribute('aria-label')).toBe('Feedback 1');
+
+        history.pushState({}, '', '/elsewhere');
+        await wait(0);
+        expect(pins()).toHaveLength(0);
+        history.replaceState({}, '', '/');
+    });
+
+    it('should send replies and +1s for the opened thread, then reload the pins', async () => {
+        const source = vi.fn(async () => existing);
+        const transport = vi.fn(async () => ({ ok: true, status: 200 }));
+        Tagtics.init({ apiKey: 'KEY', transport, review: { source }, form: { categories: true, required: ['category'] } });
+        await wait(0);
+
+        pins()[0].click();
+        const entries = Array.from(root().querySelectorAll('.tagtics-thread-entry')).map(entry => entry.textContent);
+        expect(entries).toEqual(['feedback a', 'Same here']);
+        expect(root().querySelector('.tagtics-thread-votes')!.textContent).toBe('1 × +1');
+        expect(root().querySelector('.element-desc')!.textContent).toContain('button#buy');
+
+        const textarea = root().querySelector('textarea')!;
+        textarea.value = 'Still broken on Safari';
+        (root().querySelector('button.primary') as HTMLElement).click();
+        await wait(0);
+
+        pins()[0].click();
+        (root().querySelector('.tagtics-upvote') as HTMLElement).click();
+        await wait(0);
+
+        const [[reply], [upvote]] = transport.mock.calls as unknown as [FeedbackPayload][];
+        expect(reply).toMatchObject({ replyTo: 'a', feedback: 'Still broken on Safari', selections: [{ xpath: '//*[@id="buy"]' }] });
+        expect(reply.fields).toBeUndefined();
+        expect(upvote).toMatchObject({ replyTo: 'a', upvote: true, feedback: '' });
+        expect(validatePayload(reply)).toEqual([]);
+        expect(validatePayload(upvote)).toEqual([]);
+        expect(source).toHaveBeenCalledTimes(3);
+
+        // New feedback gets the usual form again
+        Tagtics.open();
+        (root().querySelector('.tagtics-fab-item') as HTMLElement).click();
+        expect(root().querySelector('.tagtics-thread')!.classList.contains('visible')).toBe(false);
+        expect(root().querySelector('.tagtics-upvote')!.getAttribute('style')).toContain('display: none');
+    });
+
+    it('should load from the feedback endpoint by default', async () => {
+        const fetchMock = vi.fn(async () => ({ ok: true, status: 200, json: async () => ({ items: existing, total: existing.length }) }));
+        vi.stubGlobal('fetch', fetchMock);
+        Tagtics.init({ apiKey: 'KEY', endpoint: 'https://feedback.example.com/tagtics/feedback', review: true });
+        await wait(0);
+
+        const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        expect(url).toBe('https://feedback.example.com/tagtics/feedback?path=%2F');
+        expect(init.headers).toMatchObject({ 'x-api-key': 'KEY' });
+        expect(pins()).toHaveLength(2);
+    });
+
+    it('should page through the endpoint, upgrade v1 items and skip unreadable ones', async () => {
+        // Version 1 had only `selected`, and no id or redaction summary
+        const { schemaVersion, submissionId, selections, redactions, ...legacy } = item('old', 0, on('//*[@id="total"]'));
+        const { type, rect, ...selected } = selections[0];
+        const pages = [
+            { items: [existing[0], { feedback: 'no selections' }, null], total: 5 },
+            { items: [{ ...legacy, selected }, existing[4]], total: 5 },
+        ];
+        const fetchMock = vi.fn(async () => ({ ok: true, status: 200, json: async () => pages.shift() || { items: [], total: 5 } }));
+        vi.stubGlobal('fetch', fetchMock);
+        const warn = vi.spyOn(console, 'warn');
+        Tagtics.init({ apiKey: 'KEY', endpoint: 'https://feedback.example.com/tagtics/feedback', review: true });
+        await wait(0);
+
+        const urls = fetchMock.mock.calls.map(call => (call as unknown as [string])[0]);
+        expect(urls).toEqual([
+            'https://feedback.example.com/tagtics/feedback?path=%2F',
+            'https://feedback.example.com/tagtics/feedback?path=%2F&offset=3',
+        ]);
+        expect(pins()).toHaveLength(2);
+        pins()[0].click();
+        expect(root().querySelector('.tagtics-thread-entry')!.textContent).toBe('feedback old');
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('should reject a +1 without the feedback it answers', () => {
+        expect(validatePayload(item('v', 1, { upvote: true }))).toEqual([{ path: 'upvote', message: 'must be true and come with replyTo' }]);
+    });
+});
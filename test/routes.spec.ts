@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics, { FeedbackPayload } from '../src/index';
+import { resolveRouteConfig } from '../src/client';
+import { matchesRoute } from '../src/routing';
+
+const at = (url: string) => new URL(url, 'http://localhost') as unknown as Location;
+
+describe('route matching', () => {
+    it('should treat strings and regexes as pathname patterns', () => {
+        expect(matchesRoute('^/editor', at('/editor/42'))).toBe(true);
+        expect(matchesRoute(/^\/admin/, at('/editor'))).toBe(false);
+    });
+
+    it('should match global and sticky regexes the same way every time', () => {
+        const editor = /^\/editor/g;
+        const tab = { query: { tab: /settings/y } };
+        [1, 2, 3].forEach(() => {
+            expect(matchesRoute(editor, at('/editor/42'))).toBe(true);
+            expect(matchesRoute(tab, at('/editor?tab=settings'))).toBe(true);
+        });
+    });
+
+    it('should require every part of an object match', () => {
+        const match = { pathname: '^/docs', hash: /^#section-/, query: { preview: true, lang: 'de', draft: false } };
+        expect(matchesRoute(match, at('/docs/intro?preview&lang=de#section-2'))).toBe(true);
+        expect(matchesRoute(match, at('/docs/intro?preview&lang=de&draft=1#section-2'))).toBe(false);
+        expect(matchesRoute(match, at('/docs/intro?lang=de#section-2'))).toBe(false);
+        expect(matchesRoute({ query: { id: /^\d+$/ } }, at('/?id=12'))).toBe(true);
+    });
+
+    it('should call predicates and treat throwing ones as no match', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        expect(matchesRoute(location => location.pathname.length > 5, at('/marketing'))).toBe(true);
+        expect(matchesRoute(() => { throw new Error('boom'); }, at('/'))).toBe(false);
+        expect(matchesRoute('(', at('/'))).toBe(false);
+        expect(warn).toHaveBeenCalledTimes(2);
+        warn.mockRestore();
+    });
+
+    it('should apply every matching rule in order', () => {
+        const config = {
+            apiKey: 'KEY',
+            privacyNotice: 'base',
+            routes: [
+                { match: '^/admin', overrides: { privacyNotice: 'admin', serializeChildDepth: 2 } },
+                { match: '^/admin/users', overrides: { privacyNotice: 'users' } },
+            ],
+        };
+        expect(resolveRouteConfig(config, at('/home')).privacyNotice).toBe('base');
+        expect(resolveRouteConfig(config, at('/admin/users'))).toMatchObject({ privacyNotice: 'users', serializeChildDepth: 2 });
+    });
+});
+
+describe('route overrides', () => {
+    let transport: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<main id="app"><section id="target"><p>Hello</p></section></main>';
+        localStorage.clear();
+        history.replaceState({}, '', '/');
+        transport = vi.fn(async () => ({ ok: true, status: 200 }));
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+        history.replaceState({}, '', '/');
+        vi.restoreAllMocks();
+    });
+
+    it('should re-evaluate overrides after every navigation', async () => {
+        Tagtics.init({
+            apiKey: 'KEY',
+            hideLauncher: true,
+            transport,
+            routes: [{ match: '^/editor', overrides: { serializeChildDepth: 1, release: 'editor' } }],
+        });
+        const target = document.getElementById('target');
+
+        await Tagtics.submit({ feedback: 'home', element: target });
+        history.pushState({}, '', '/editor');
+        await Tagtics.submit({ feedback: 'editor', element: target });
+        history.pushState({}, '', '/');
+        await Tagtics.submit({ feedback: 'back', element: target });
+
+        const [home, editor, back] = transport.mock.calls.map(([payload]: [FeedbackPayload]) => payload);
+        expect(home.selections[0].serialized.children).toHaveLength(0);
+        expect(editor.selections[0].serialized.children).toHaveLength(1);
+        expect(editor.release).toBe('editor');
+        expect(back.release).toBeUndefined();
+    });
+
+    it('should allow page feedback only on matching routes', async () => {
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true, routes: [{ match: { query: { utm_source: true } }, overrides: { pageFeedbackOnly: true } }] });
+
+        history.pushState({}, '', '/landing?utm_source=ad');
+        await expect(Tagtics.pick()).rejects.toThrow(/disabled on this page/);
+    });
+
+    it('should rebuild the widget when a route changes its UI settings', () => {
+        const attachShadow = vi.spyOn(HTMLElement.prototype, 'attachShadow');
+        Tagtics.init({ apiKey: 'KEY', privacyNotice: 'Public', routes: [{ match: '^/admin', overrides: { privacyNotice: 'Admin only' } }] });
+        history.pushState({}, '', '/admin');
+
+        expect(attachShadow).toHaveBeenCalledTimes(2);
+        const root = attachShadow.mock.results[1].value as ShadowRoot;
+        expect((root.querySelector('.privacy-notice') as HTMLElement).innerText).toBe('Admin only');
+        expect(document.querySelectorAll('#tagtics-host')).toHaveLength(1);
+
+        // Navigations that don't change UI settings keep the existing widget
+        history.pushState({}, '', '/admin/settings');
+        expect(attachShadow).toHaveBeenCalledTimes(2);
+    });
+});
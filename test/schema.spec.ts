@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics, { migratePayload, validatePayload, isFeedbackPayload, SCHEMA_VERSION, FeedbackPayload } from '../src/index';
+
+const legacyPayload = () => ({
+    feedback: 'Button is misaligned',
+    pageUrl: 'http://localhost:3000/pricing',
+    path: '/pricing',
+    timestamp: 1700000000000,
+    clientMeta: { ua: 'test', viewport: { width: 1024, height: 768 } },
+    selected: {
+        xpath: '//*[@id="buy"]',
+        tag: 'button',
+        descriptor: 'button#buy ',
+        serialized: { tag: 'button', attributes: { id: 'buy' }, text: 'Buy', styles: {}, children: [] },
+        ancestors: [{ xpath: '/html/body/main', tag: 'main', descriptor: 'main ' }],
+    },
+    hasEmbeds: false,
+    embedHostnames: [],
+});
+
+describe('payload schema', () => {
+    let transport: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<main><button id="buy" data-testid="buy">Buy</button></main>';
+        localStorage.clear();
+        transport = vi.fn(async () => ({ ok: true, status: 200 }));
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+    });
+
+    it('should send payloads that pass the published validator', async () => {
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true, transport, serializeChildDepth: 1, form: { categories: true } });
+        await Tagtics.submit({ feedback: 'hi', element: document.getElementById('buy'), fields: { category: 'bug' } });
+        await Tagtics.submit({ feedback: 'page' });
+
+        const [[element], [page]] = transport.mock.calls as [FeedbackPayload][];
+        expect(element.schemaVersion).toBe(SCHEMA_VERSION);
+        expect(validatePayload(element)).toEqual([]);
+        expect(validatePayload(page)).toEqual([]);
+        expect(isFeedbackPayload(page)).toBe(true);
+    });
+
+    it('should report every problem with its path', () => {
+        const errors = validatePayload({ ...migratePayload(legacyPayload()), submissionId: '', selections: [{ type: 'box', rect: {} }] });
+        const paths = errors.map(error => error.path);
+
+        expect(paths).toContain('submissionId');
+        expect(paths).toContain('selections[0].type');
+        expect(paths).toContain('selections[0].rect');
+        expect(paths).toContain('selections[0].serialized');
+        expect(validatePayload('nope')).toEqual([{ path: '', message: 'must be a JSON object' }]);
+    });
+
+    it('should only accept http(s) page URLs', () => {
+        const withUrl = (pageUrl: string) => validatePayload({ ...migratePayload(legacyPayload()), pageUrl });
+
+        expect(withUrl('https://example.com/pricing')).toEqual([]);
+        expect(withUrl('javascript:alert(document.cookie)')).toEqual([{ path: 'pageUrl', message: 'must be an http(s) URL' }]);
+        expect(withUrl('not a url')).toEqual([{ path: 'pageUrl', message: 'must be an http(s) URL' }]);
+    });
+
+    it('should reject unversioned payloads until they are migrated', () => {
+        expect(validatePayload(legacyPayload()).map(error => error.path)).toContain('schemaVersion');
+
+        const migrated = migratePayload(legacyPayload());
+        expect(validatePayload(migrated)).toEqual([]);
+        expect(migrated.selections).toEqual([expect.objectContaining({ type: 'element', xpath: '//*[@id="buy"]', rect: null })]);
+        expect(migrated.selected.locators).toEqual({ xpath: '//*[@id="buy"]' });
+        expect(migrated.selected.descriptor).toBe('button#buy');
+    });
+
+    it('should derive a stable submission id and leave current payloads untouched', () => {
+        const legacy = legacyPayload();
+        const first = migratePayload(legacy);
+
+        expect(first.submissionId).toBe(migratePayload(legacyPayload()).submissionId);
+        expect(legacy).not.toHaveProperty('schemaVersion');
+        expect(migratePayload(first)).toBe(first);
+    });
+
+    it('should refuse versions it does not know', () => {
+        expect(() => migratePayload({ ...legacyPayload(), schemaVersion: SCHEMA_VERSION + 1 })).toThrow(/unsupported payload schemaVersion/);
+        expect(() => migratePayload({ ...legacyPayload(), schemaVersion: 'two' })).toThrow(/unsupported/);
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { cloneForCapture } from '../src/screenshot';
+
+describe('cloneForCapture', () => {
+    it('should clone text content and inline styles', () => {
+        const div = document.createElement('div');
+        div.innerHTML = '<h2>Title</h2><p>Body</p>';
+        document.body.appendChild(div);
+
+        const clone = cloneForCapture(div)!;
+        expect(clone.querySelector('h2')!.textContent).toBe('Title');
+        expect(clone.getAttribute('style')).toContain('display:');
+        div.remove();
+    });
+
+    it('should black out form fields and drop their values', () => {
+        const form = document.createElement('form');
+        form.innerHTML = '<input name="email" value="me@example.com"><textarea>secret</textarea>';
+        document.body.appendChild(form);
+
+        const clone = cloneForCapture(form)!;
+        const input = clone.querySelector('input')!;
+        const textarea = clone.querySelector('textarea')!;
+        expect(input.hasAttribute('value')).toBe(false);
+        expect(input.style.background).toContain('rgb(0, 0, 0)');
+        expect(textarea.textContent).toBe('');
+        form.remove();
+    });
+
+    it('should mask elements matching the sensitive patterns', () => {
+        const div = document.createElement('div');
+        div.innerHTML = '<div id="cardholder-info">Jane Doe</div><span data-credit-card="4111">4111</span>';
+        document.body.appendChild(div);
+
+        const clone = cloneForCapture(div)!;
+        expect(clone.querySelector('#cardholder-info')!.textContent).toBe('');
+        expect(clone.querySelector('span')!.textContent).toBe('');
+        div.remove();
+    });
+
+    it('should skip scripts and the widget host', () => {
+        const div = document.createElement('div');
+        div.innerHTML = '<script>1</script><div id="tagtics-host"></div><p>kept</p>';
+
+        const clone = cloneForCapture(div)!;
+        expect(clone.querySelector('script')).toBeNull();
+        expect(clone.querySelector('#tagtics-host')).toBeNull();
+        expect(clone.querySelector('p')).not.toBeNull();
+    });
+
+    it('should stop cloning once the node budget is spent', () => {
+        const div = document.createElement('div');
+        div.innerHTML = '<span></span><span></span><span></span>';
+
+        const clone = cloneForCapture(div, 2)!;
+        expect(clone.querySelectorAll('span').length).toBe(1);
+    });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+import { rectFromPoints, toggleSelection, Selection } from '../src/selection';
+
+const wait = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+describe('multi-selection', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        document.body.innerHTML = '<label id="name-label">Name</label><input id="name"><div id="card"></div>';
+        localStorage.clear();
+        fetchMock = vi.fn(async () => ({ ok: true, status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true });
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should normalize drag rectangles and toggle element selections', () => {
+        expect(rectFromPoints({ x: 50, y: 40 }, { x: 10, y: 100 })).toEqual({ top: 40, left: 10, width: 40, height: 60 });
+
+        const el = document.getElementById('card')!;
+        const list: Selection[] = toggleSelection([], { type: 'element', element: el });
+        expect(list).toHaveLength(1);
+        expect(toggleSelection(list, { type: 'element', element: el })).toEqual([]);
+    });
+
+    it('should collect Shift+clicked elements until a plain click', async () => {
+        const picked = Tagtics.pick();
+        await wait(60);
+        document.getElementById('name-label')!.dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey: true }));
+        document.getElementById('card')!.dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey: true }));
+        document.getElementById('card')!.dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey: true })); // deselect
+        document.getElementById('name')!.click();
+
+        const info = await picked;
+        expect(info.element.id).toBe('name-label');
+
+        await Tagtics.submit({ feedback: 'Misaligned' });
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.selections.map((s: any) => s.xpath)).toEqual(['//*[@id="name-label"]', '//*[@id="name"]']);
+        expect(body.selections[0].rect).toEqual({ top: 0, left: 0, width: 0, height: 0 });
+        expect(body.selected.xpath).toBe('//*[@id="name-label"]');
+    });
+
+    it('should add a dragged region as a selection', async () => {
+        const picked = Tagtics.pick();
+        await wait(60);
+        const mouse = (type: string, x: number, y: number) =>
+            document.body.dispatchEvent(new MouseEvent(type, { bubbles: true, button: 0, clientX: x, clientY: y }));
+        mouse('mousedown', 10, 20);
+        mouse('mousemove', 60, 80);
+        mouse('mouseup', 110, 70);
+
+        await picked;
+        await Tagtics.submit({ feedback: 'Spacing' });
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.selections).toHaveLength(1);
+        expect(body.selections[0]).toMatchObject({ type: 'region', rect: { top: 20, left: 10, width: 100, height: 50 }, tag: 'body' });
+    });
+
+    it('should send several explicit elements', async () => {
+        await Tagtics.submit({ feedback: 'Gap', elements: [document.getElementById('name')!, document.getElementById('card')!] });
+
+        const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+        expect(body.selections.map((s: any) => s.type)).toEqual(['element', 'element']);
+    });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics, { detectSensitivePage } from '../src/index';
+
+const addFrame = (src: string) => {
+    const iframe = document.createElement('iframe');
+    iframe.src = src;
+    Object.defineProperty(iframe, 'contentDocument', { get: () => null });
+    document.body.appendChild(iframe);
+    return iframe;
+};
+
+describe('detectSensitivePage', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '';
+        history.replaceState({}, '', '/');
+    });
+
+    afterEach(() => {
+        history.replaceState({}, '', '/');
+        vi.restoreAllMocks();
+    });
+
+    it('should match keywords on whole path segments only', () => {
+        history.replaceState({}, '', '/account/orders-history');
+        expect(detectSensitivePage().sensitive).toBe(false);
+        history.replaceState({}, '', '/pay-as-you-go-pricing');
+        expect(detectSensitivePage().sensitive).toBe(false);
+
+        history.replaceState({}, '', '/shop/checkout/step-2');
+        expect(detectSensitivePage().reasons).toEqual([{ signal: 'keyword', weight: 1, detail: 'checkout' }]);
+    });
+
+    it('should add and remove keywords and providers', () => {
+        history.replaceState({}, '', '/order');
+        const script = document.createElement('script');
+        script.src = 'https://cdn.mollie.com/pay.js';
+        document.body.appendChild(script);
+
+        const result = detectSensitivePage({
+            keywords: { remove: ['order'], add: [/[?&]step=payment/] },
+            providers: { add: ['mollie.com'] },
+        });
+        expect(result.reasons).toEqual([{ signal: 'provider', weight: 1, detail: 'script from mollie.com' }]);
+
+        history.replaceState({}, '', '/cart?step=payment');
+        expect(detectSensitivePage({ keywords: { add: [/[?&]step=payment/] } }).reasons.map(reason => reason.signal)).toContain('keyword');
+    });
+
+    it('should not flag a page for an unknown cross-origin frame alone', () => {
+        addFrame('https://www.youtube.com/embed/abc');
+        addFrame('https://maps.example.org/');
+
+        const result = detectSensitivePage();
+        expect(result).toMatchObject({ sensitive: false, score: 0.5, threshold: 1 });
+        expect(result.reasons.map(reason => reason.detail)).toEqual(['https://www.youtube.com', 'https://maps.example.org']);
+
+        expect(detectSensitivePage({ weights: { iframe: 1 } }).sensitive).toBe(true);
+        expect(detectSensitivePage({ weights: { iframe: 1 }, allowedFrameOrigins: ['https://www.youtube.com', 'example.org'] }).reasons).toEqual([]);
+    });
+
+    it('should score selector and predicate signals against the threshold', () => {
+        document.body.innerHTML = '<form id="payment-form"><input name="cardnumber"></form>';
+        const options = { selectors: ['#payment-form', '['], predicate: () => 'plan upgrade', threshold: 3 };
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        const result = detectSensitivePage(options);
+        expect(result.score).toBe(3);
+        expect(result.sensitive).toBe(true);
+        expect(result.reasons.map(reason => reason.signal)).toEqual(['input', 'selector', 'custom']);
+        expect(warn).toHaveBeenCalledTimes(1);
+
+        expect(detectSensitivePage({ ...options, weights: { input: 0 } }).sensitive).toBe(false);
+    });
+
+    it('should apply the detector options to widget visibility', () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        history.replaceState({}, '', '/orders');
+        Tagtics.init({ apiKey: 'KEY', sensitivePages: { keywords: { add: ['orders'] } } });
+        expect(document.getElementById('tagtics-host')).toBeNull();
+
+        history.pushState({}, '', '/pricing');
+        expect(document.getElementById('tagtics-host')).not.toBeNull();
+        Tagtics.destroy();
+    });
+});
@@ -66,4 +66,14 @@ describe('serializeElement', () => {
         expect(result1.children.length).toBe(1);
         expect(result1.children[0].tag).toBe('span');
     });
+
+    it('should include open shadow root content within the depth limit', () => {
+        const host = document.createElement('div');
+        host.attachShadow({ mode: 'open' }).innerHTML = '<span>inside</span>';
+
+        expect(serializeElement(host, 0).shadowRoot).toBeUndefined();
+        const result = serializeElement(host, 1);
+        expect(result.shadowRoot.length).toBe(1);
+        expect(result.shadowRoot[0].tag).toBe('span');
+    });
 });
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { createThemeCss, normalizePosition } from '../src/theme';
+
+describe('theme', () => {
+    it('should default to the dark palette', () => {
+        const css = createThemeCss();
+        expect(css).toContain('--tagtics-color-scheme: dark;');
+        expect(css).not.toContain('prefers-color-scheme');
+    });
+
+    it('should switch palettes with prefers-color-scheme in auto mode', () => {
+        const css = createThemeCss('auto');
+        expect(css.indexOf('--tagtics-color-scheme: light;')).toBeLessThan(css.indexOf('@media (prefers-color-scheme: dark)'));
+    });
+
+    it('should place overrides after the palettes', () => {
+        const css = createThemeCss({ mode: 'light', primary: '#0f766e', radius: 8, variables: { '--tagtics-text': '#111', 'border': 'red' } });
+        const overrides = css.slice(css.lastIndexOf(':host'));
+
+        expect(overrides).toContain('--tagtics-primary: #0f766e;');
+        expect(overrides).toContain('--tagtics-primary-end: #0f766e;');
+        expect(overrides).toContain('--tagtics-radius: 8px;');
+        expect(overrides).toContain('--tagtics-text: #111;');
+        expect(overrides).toContain('--tagtics-border: red;');
+    });
+
+    it('should normalize launcher positions', () => {
+        expect(normalizePosition()).toEqual({ corner: 'bottom-right', offsetX: '20px', offsetY: '20px' });
+        expect(normalizePosition({ corner: 'top-left', offsetX: 8, offsetY: '2rem' }))
+            .toEqual({ corner: 'top-left', offsetX: '8px', offsetY: '2rem' });
+        expect(createThemeCss('dark', 'bottom-left')).toContain('--tagtics-offset-x: 20px;');
+    });
+});
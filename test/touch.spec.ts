@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+
+const wait = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+function touch(type: string, el: Element, x = 10, y = 10) {
+    const event = new Event(type, { bubbles: true, cancelable: true, composed: true });
+    Object.defineProperty(event, 'touches', { value: type === 'touchend' ? [] : [{ clientX: x, clientY: y }] });
+    el.dispatchEvent(event);
+    return event;
+}
+
+describe('touch picking', () => {
+    beforeEach(() => {
+        document.body.innerHTML = '<main><a id="link" href="#go">Go</a><p id="text">Hello</p></main>';
+        vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, status: 200 })));
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        Tagtics.init({ apiKey: 'KEY' });
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should pick on long-press', async () => {
+        const picked = Tagtics.pick();
+        await wait(60);
+        touch('touchstart', document.getElementById('text')!);
+        await wait(550);
+
+        const info = await picked;
+        expect(info.element.id).toBe('text');
+    });
+
+    it('should only highlight on tap and keep the tap from reaching the page', async () => {
+        const onPick = vi.fn();
+        Tagtics.pick().then(onPick, () => undefined);
+        await wait(60);
+        const link = document.getElementById('link')!;
+        touch('touchstart', link);
+        const end = touch('touchend', link);
+        await wait(20);
+
+        expect(end.defaultPrevented).toBe(true);
+        expect(onPick).not.toHaveBeenCalled();
+    });
+
+    it('should cancel a long-press that turns into a scroll', async () => {
+        const onPick = vi.fn();
+        Tagtics.pick().then(onPick, () => undefined);
+        await wait(60);
+        const text = document.getElementById('text')!;
+        touch('touchstart', text, 10, 10);
+        touch('touchmove', text, 10, 60);
+        await wait(550);
+
+        expect(onPick).not.toHaveBeenCalled();
+    });
+
+    it('should keep picking through resizes', async () => {
+        const picked = Tagtics.pick();
+        await wait(60);
+        window.dispatchEvent(new Event('resize'));
+        document.getElementById('text')!.click();
+
+        const info = await picked;
+        expect(info.element.id).toBe('text');
+    });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+import { createHighlightTracker, getAncestorPath, ANCESTOR_STEP_MS } from '../src/tracking';
+
+const FRAME_MS = 16;
+
+function placeAt(el: Element, rect: { top: number; left: number; width: number; height: number }) {
+    el.getBoundingClientRect = () => ({ ...rect, right: rect.left + rect.width, bottom: rect.top + rect.height, x: rect.left, y: rect.top, toJSON: () => rect }) as DOMRect;
+}
+
+const boxTop = (box: HTMLElement) => box.style.display === 'none' ? null : box.style.top;
+
+describe('highlight tracking', () => {
+    let box: HTMLElement;
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'requestAnimationFrame', 'cancelAnimationFrame'] });
+        document.body.innerHTML = '<main id="outer"><section id="inner"><button id="target">Buy</button></section></main>';
+        box = document.createElement('div');
+        placeAt(document.getElementById('outer')!, { top: 0, left: 0, width: 800, height: 600 });
+        placeAt(document.getElementById('inner')!, { top: 50, left: 10, width: 400, height: 200 });
+        placeAt(document.getElementById('target')!, { top: 100, left: 20, width: 80, height: 30 });
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('should re-measure once per frame after scrolling and resizing', () => {
+        const tracker = createHighlightTracker();
+        const target = document.getElementById('target')!;
+        tracker.track(box, target);
+        expect(boxTop(box)).toBe('100px');
+
+        placeAt(target, { top: 40, left: 20, width: 80, height: 30 });
+        window.dispatchEvent(new Event('scroll'));
+        window.dispatchEvent(new Event('resize'));
+        expect(boxTop(box)).toBe('100px');
+        vi.advanceTimersByTime(FRAME_MS);
+        expect(boxTop(box)).toBe('40px');
+
+        tracker.clear();
+        placeAt(target, { top: 0, left: 0, width: 80, height: 30 });
+        window.dispatchEvent(new Event('scroll'));
+        vi.advanceTimersByTime(FRAME_MS);
+        expect(boxTop(box)).toBe('40px');
+    });
+
+    it('should hide the box while its target is detached', async () => {
+        const tracker = createHighlightTracker();
+        const target = document.getElementById('target')!;
+        const parent = target.parentElement!;
+        tracker.track(box, target);
+
+        target.remove();
+        await Promise.resolve();
+        vi.advanceTimersByTime(FRAME_MS);
+        expect(box.style.display).toBe('none');
+
+        parent.appendChild(target);
+        await Promise.resolve();
+        vi.advanceTimersByTime(FRAME_MS);
+        expect(boxTop(box)).toBe('100px');
+        tracker.clear();
+    });
+
+    it('should step from the parents down to the target', () => {
+        const tracker = createHighlightTracker();
+        const target = document.getElementById('target')!;
+        tracker.track(box, target, getAncestorPath(target));
+
+        expect(boxTop(box)).toBe('0px');
+        vi.advanceTimersByTime(ANCESTOR_STEP_MS);
+        expect(boxTop(box)).toBe('50px');
+        vi.advanceTimersByTime(ANCESTOR_STEP_MS);
+        expect(boxTop(box)).toBe('100px');
+
+        // Tracking the same target again leaves a running animation alone
+        tracker.track(box, document.getElementById('inner')!, getAncestorPath(document.getElementById('inner')!));
+        tracker.track(box, document.getElementById('inner')!);
+        vi.advanceTimersByTime(ANCESTOR_STEP_MS);
+        expect(boxTop(box)).toBe('50px');
+        tracker.clear();
+    });
+
+    it('should skip the animation for users who prefer reduced motion', () => {
+        vi.stubGlobal('matchMedia', (query: string) => ({ matches: query.includes('reduce') }));
+        expect(getAncestorPath(document.getElementById('target')!)).toEqual([]);
+        vi.unstubAllGlobals();
+        expect(getAncestorPath(document.getElementById('target')!).map(el => el.id)).toEqual(['outer', 'inner']);
+    });
+
+    it('should keep picking and tracking the hovered element across resizes', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        const attachShadow = vi.spyOn(HTMLElement.prototype, 'attachShadow');
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true });
+        const root = attachShadow.mock.results[0].value as ShadowRoot;
+        const target = document.getElementById('target')!;
+
+        const picked = Tagtics.pick();
+        vi.advanceTimersByTime(50);
+        target.dispatchEvent(new MouseEvent('mouseover', { bubbles: true, composed: true }));
+        const hover = root.querySelector('.tagtics-highlight.hover') as HTMLElement;
+        expect(boxTop(hover)).toBe('100px');
+
+        placeAt(target, { top: 300, left: 20, width: 80, height: 30 });
+        window.dispatchEvent(new Event('resize'));
+        vi.advanceTimersByTime(FRAME_MS);
+        expect(boxTop(hover)).toBe('300px');
+
+        target.dispatchEvent(new MouseEvent('click', { bubbles: true, composed: true }));
+        await expect(picked).resolves.toMatchObject({ element: target });
+    });
+});
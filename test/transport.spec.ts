@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Tagtics from '../src/index';
+
+describe('transport configuration', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        document.body.innerHTML = '';
+        localStorage.clear();
+        fetchMock = vi.fn(async () => ({ ok: true, status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        Tagtics.destroy();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('should send the api key header to the production endpoint by default', async () => {
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true });
+        await Tagtics.submit({ feedback: 'hi' });
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://www.tagtics.online/new-feedback/KEY');
+        expect(init.headers['x-api-key']).toBe('KEY');
+    });
+
+    it('should use a custom endpoint and resolve async headers', async () => {
+        Tagtics.init({
+            apiKey: 'KEY',
+            hideLauncher: true,
+            endpoint: 'https://api.example.com/feedback',
+            headers: async () => ({ Authorization: 'Bearer token' }),
+        });
+        await Tagtics.submit({ feedback: 'hi' });
+
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://api.example.com/feedback');
+        expect(init.headers.Authorization).toBe('Bearer token');
+        expect(init.headers['Content-Type']).toBe('application/json');
+    });
+
+    it('should send to the local receiver in testingMode and say so once', async () => {
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true, testingMode: true, port: 4000, breadcrumbs: true });
+        await fetch('https://api.example.com/other');
+        await Tagtics.submit({ feedback: 'hi' });
+        await Tagtics.submit({ feedback: 'again' });
+
+        expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+            'https://api.example.com/other', 'http://localhost:4000/tagtics/feedback', 'http://localhost:4000/tagtics/feedback',
+        ]);
+        const endpointLogs = vi.mocked(console.log).mock.calls.filter(([message]) => String(message).includes('Sending feedback to'));
+        expect(endpointLogs).toEqual([['[Tagtics] Testing mode enabled. Sending feedback to http://localhost:4000/tagtics/feedback']]);
+    });
+
+    it('should hand the payload to a custom transport instead of fetch', async () => {
+        const transport = vi.fn(async () => ({ ok: false, status: 400 }));
+        Tagtics.init({ apiKey: 'KEY', hideLauncher: true, transport });
+
+        const outcome = await Tagtics.submit({ feedback: 'hi' });
+
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect(transport.mock.calls[0][0].feedback).toBe('hi');
+        expect(outcome).toBe('dropped');
+    });
+
+    it('should give the text back when a submission is rejected', async () => {
+        const transport = vi.fn(async () => ({ ok: false, status: 400 }));
+        const attachShadow = vi.spyOn(HTMLElement.prototype, 'attachShadow');
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        Tagtics.init({ apiKey: 'KEY', transport });
+        const root = attachShadow.mock.results[0].value as ShadowRoot;
+        const modal = root.querySelector('.tagtics-modal') as HTMLElement;
+
+        (root.querySelector('.tagtics-fab-item') as HTMLElement).click();
+        root.querySelector('textarea')!.value = 'Checkout button does nothing';
+        (root.querySelector('button.primary') as HTMLElement).click();
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(transport).toHaveBeenCalledTimes(1);
+        expect(modal.style.display).toBe('flex');
+        expect(root.querySelector('textarea')!.value).toBe('Checkout button does nothing');
+    });
+
+    it('should send once when Send is clicked again before the first click settles', async () => {
+        const transport = vi.fn(async () => ({ ok: true, status: 200 }));
+        let release = () => {};
+        const beforeSend = vi.fn(() => new Promise<void>(resolve => { release = resolve; }));
+        const attachShadow = vi.spyOn(HTMLElement.prototype, 'attachShadow');
+        Tagtics.init({ apiKey: 'KEY', transport, beforeSend });
+        const root = attachShadow.mock.results[0].value as ShadowRoot;
+        const send = root.querySelector('button.primary') as HTMLButtonElement;
+
+        (root.querySelector('.tagtics-fab-item') as HTMLElement).click();
+        root.querySelector('textarea')!.value = 'Double click';
+        send.click();
+        send.click();
+        root.querySelector('textarea')!.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+        expect(send.disabled).toBe(true);
+
+        release();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(beforeSend).toHaveBeenCalledTimes(1);
+        expect(transport).toHaveBeenCalledTimes(1);
+        expect(send.disabled).toBe(false);
+    });
+});
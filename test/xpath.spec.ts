@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { getXPath } from '../src/index';
+import { evaluateXPath, getXPath } from '../src/index';
 
 describe('getXPath', () => {
     it('should return id-based xpath if id is present', () => {
@@ -38,4 +38,48 @@ describe('getXPath', () => {
 
         container.remove();
     });
+
+    it('should step into open shadow roots', () => {
+        const host = document.createElement('my-card');
+        host.id = 'card';
+        document.body.appendChild(host);
+        const shadow = host.attachShadow({ mode: 'open' });
+        const wrapper = document.createElement('div');
+        const button = document.createElement('button');
+        shadow.appendChild(document.createElement('style'));
+        shadow.appendChild(wrapper);
+        wrapper.appendChild(button);
+
+        const path = getXPath(button);
+        expect(path).toBe('//*[@id="card"]/#shadow-root/div[1]/button[1]');
+        expect(evaluateXPath(path)).toBe(button);
+
+        host.remove();
+    });
+
+    it('should step into same-origin iframe documents', () => {
+        const iframe = document.createElement('iframe');
+        iframe.id = 'frame';
+        document.body.appendChild(iframe);
+        const doc = iframe.contentDocument!;
+        const p = doc.createElement('p');
+        doc.body.appendChild(p);
+
+        const path = getXPath(p);
+        expect(path).toBe('//*[@id="frame"]/#document/html/body/p[1]');
+        expect(evaluateXPath(path)).toBe(p);
+
+        iframe.remove();
+    });
+
+    it('should resolve plain paths and reject missing ones', () => {
+        const div = document.createElement('div');
+        div.id = 'plain';
+        document.body.appendChild(div);
+
+        expect(evaluateXPath('//*[@id="plain"]')).toBe(div);
+        expect(evaluateXPath('//*[@id="missing"]/#shadow-root/div[1]')).toBeNull();
+
+        div.remove();
+    });
 });